@@ -0,0 +1,156 @@
+/**
+ * Audit log of tool invocations
+ *
+ * Every tool call is recorded as one JSON line in a local file that is rotated by size,
+ * and optionally also written to a Firestore collection.
+ */
+
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+
+export type AuditOutcome = "success" | "error" | "denied" | "invalid" | "conflict";
+
+export interface AuditRecord {
+    timestamp: string;
+    tool: string;
+    project: string;
+    // Set when the call named a database other than the project's default
+    database?: string;
+    paths: string[];
+    argsHash: string;
+    outcome: AuditOutcome;
+    error?: string;
+    durationMs: number;
+}
+
+export interface AuditLogOptions {
+    // Local JSONL file; rotated files are named <name>.1.jsonl, <name>.2.jsonl, ...
+    filePath?: string;
+    maxBytes: number;
+    maxFiles: number;
+    // Optional second sink
+    collection?: FirebaseFirestore.CollectionReference;
+}
+
+export interface AuditQuery {
+    tool?: string;
+    project?: string;
+    outcome?: AuditOutcome;
+    path?: string;
+    since?: string;
+    limit: number;
+    // Only records this accepts are returned or counted toward the limit
+    include?: (record: AuditRecord) => boolean;
+}
+
+// JSON with object keys sorted, so equal arguments always hash the same
+function stableStringify(value: any): string {
+    if (Array.isArray(value)) {
+        return `[${value.map(stableStringify).join(",")}]`;
+    }
+    if (value && typeof value === "object") {
+        return `{${Object.keys(value).sort().map(key => `${JSON.stringify(key)}:${stableStringify(value[key])}`).join(",")}}`;
+    }
+    return JSON.stringify(value) ?? "null";
+}
+
+// Hash tool arguments so records can be correlated without storing document data
+export function hashArguments(args: unknown): string {
+    return crypto.createHash("sha256").update(stableStringify(args ?? {})).digest("hex");
+}
+
+export class AuditLog {
+    // Writes are chained so records are appended, and files rotated, one at a time
+    private pending: Promise<void> = Promise.resolve();
+
+    constructor(private readonly options: AuditLogOptions) {
+        if (options.filePath) {
+            fs.mkdirSync(path.dirname(options.filePath), { recursive: true });
+        }
+    }
+
+    get filePath(): string | undefined {
+        return this.options.filePath;
+    }
+
+    // Record a tool invocation in every configured sink; failures are reported but never fail the call
+    record(record: AuditRecord): void {
+        if (this.options.filePath) {
+            this.pending = this.pending
+                .then(() => this.appendToFile(JSON.stringify(record) + "\n"))
+                .catch(error => console.error("Error writing audit log:", error));
+        }
+        if (this.options.collection) {
+            this.options.collection.add(record).catch(error => console.error("Error writing audit record to Firestore:", error));
+        }
+    }
+
+    // Return the most recent records matching the query, newest first
+    async query(query: AuditQuery): Promise<AuditRecord[]> {
+        await this.pending;
+        if (!this.options.filePath) {
+            return [];
+        }
+
+        const results: AuditRecord[] = [];
+        for (const file of this.filesNewestFirst()) {
+            if (!fs.existsSync(file)) continue;
+
+            const lines = (await fs.promises.readFile(file, "utf8")).split("\n").filter(line => line.trim().length > 0);
+            for (let index = lines.length - 1; index >= 0; index--) {
+                let record: AuditRecord;
+                try {
+                    record = JSON.parse(lines[index]);
+                } catch {
+                    continue;
+                }
+                if (query.since && record.timestamp < query.since) continue;
+                if (query.tool && record.tool !== query.tool) continue;
+                if (query.project && record.project !== query.project) continue;
+                if (query.outcome && record.outcome !== query.outcome) continue;
+                if (query.path && !record.paths.some(recordPath => recordPath === query.path || recordPath.startsWith(`${query.path}/`))) continue;
+                if (query.include && !query.include(record)) continue;
+
+                results.push(record);
+                if (results.length >= query.limit) {
+                    return results;
+                }
+            }
+        }
+        return results;
+    }
+
+    private rotatedFile(index: number): string {
+        const filePath = this.options.filePath!;
+        if (index === 0) {
+            return filePath;
+        }
+        const extension = path.extname(filePath);
+        return `${filePath.slice(0, filePath.length - extension.length)}.${index}${extension}`;
+    }
+
+    private filesNewestFirst(): string[] {
+        return Array.from({ length: this.options.maxFiles }, (_, index) => this.rotatedFile(index));
+    }
+
+    private async appendToFile(line: string): Promise<void> {
+        const filePath = this.options.filePath!;
+        const size = fs.existsSync(filePath) ? (await fs.promises.stat(filePath)).size : 0;
+
+        if (size > 0 && size + Buffer.byteLength(line) > this.options.maxBytes) {
+            // Shift <name>.jsonl -> <name>.1.jsonl -> <name>.2.jsonl ..., dropping the oldest
+            for (let index = this.options.maxFiles - 1; index > 0; index--) {
+                const source = this.rotatedFile(index - 1);
+                if (fs.existsSync(source)) {
+                    await fs.promises.rename(source, this.rotatedFile(index));
+                }
+            }
+            if (this.options.maxFiles <= 1) {
+                await fs.promises.rm(filePath, { force: true });
+            }
+        }
+
+        await fs.promises.appendFile(filePath, line, "utf8");
+    }
+}
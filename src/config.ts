@@ -0,0 +1,254 @@
+/**
+ * Server configuration: which Firestore projects to serve and how to connect to each
+ *
+ * Read from the JSON or YAML file named by FIRESTORE_MCP_CONFIG, or from firestore-mcp.json, .yaml or .yml
+ * in the server's root directory. Without a file, projects come from the environment variables
+ * GOOGLE_CLOUD_PROJECTS, FIRESTORE_EMULATOR_HOST and FIRESTORE_EMULATOR_PROJECTS, with key files in keys/.
+ *
+ * Example (YAML):
+ *   defaultProject: prod
+ *   projects:
+ *     - projectId: acme-prod
+ *       alias: prod
+ *       credentials: { type: keyFile, path: keys/acme-prod.json }
+ *       readOnly: true
+ *       collections: { deny: ["secrets/**"] }
+ *     - projectId: acme-prod
+ *       alias: tenants
+ *       database: tenant-eu
+ *       databases: [tenant-us, tenant-asia]
+ *       credentials: { type: applicationDefault }
+ *       schemas:
+ *         users: schemas/user.json
+ *         orders: { type: object, required: [total] }
+ *     - projectId: demo-local
+ *       credentials: { type: emulator, host: localhost:8080 }
+ */
+
+import { z } from "zod";
+import fs from "fs";
+import path from "path";
+import YAML from "yaml";
+import { CollectionRulesSchema } from "./policy.js";
+import { schemaProblem } from "./validation.js";
+
+// Default emulator address used when a project is emulated without an explicit host
+export const DEFAULT_EMULATOR_HOST = "localhost:8080";
+
+// ID of the database every Firestore project has
+export const DEFAULT_DATABASE = "(default)";
+
+const CONFIG_FILE_NAMES = ["firestore-mcp.json", "firestore-mcp.yaml", "firestore-mcp.yml"];
+
+const CredentialsSchema = z.discriminatedUnion("type", [
+    // A service account key file; defaults to keys/<projectId>.json
+    z.object({ type: z.literal("keyFile"), path: z.string().min(1).optional() }),
+    // Application Default Credentials: GOOGLE_APPLICATION_CREDENTIALS, gcloud auth or the metadata server
+    z.object({ type: z.literal("applicationDefault") }),
+    z.object({ type: z.literal("emulator"), host: z.string().min(1).default(DEFAULT_EMULATOR_HOST) }),
+]);
+
+const ProjectConfigSchema = z.object({
+    projectId: z.string().min(1),
+    // The name tools use in their "project" argument; defaults to the project ID
+    alias: z.string().min(1).regex(/^[^/]+$/, "must not contain '/'").optional(),
+    // Database used when a tool call names none; defaults to "(default)"
+    database: z.string().min(1).optional(),
+    // Further databases that tool calls may select with their "database" argument
+    databases: z.array(z.string().min(1)).default([]),
+    credentials: CredentialsSchema.default({ type: "keyFile" }),
+    readOnly: z.boolean().default(false),
+    collections: CollectionRulesSchema.optional(),
+    // JSON Schemas for documents written to matching collections, keyed by collection pattern;
+    // a string is the path of a JSON or YAML schema file
+    schemas: z.record(z.string().min(1), z.union([z.record(z.any()), z.string().min(1)])).default({}),
+    // A Firestore collection holding further schemas, see validation.ts
+    schemasCollection: z.string().min(1).optional(),
+});
+
+const ConfigSchema = z.object({
+    defaultProject: z.string().min(1).optional(),
+    projects: z.array(ProjectConfigSchema).min(1),
+}).superRefine((config, ctx) => {
+    const names = config.projects.map(project => project.alias ?? project.projectId);
+    names.forEach((name, index) => {
+        if (names.indexOf(name) !== index) {
+            ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["projects", index], message: `Duplicate project name '${name}'; give one of them an alias` });
+        }
+    });
+    if (config.defaultProject && !names.includes(config.defaultProject)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["defaultProject"], message: `'${config.defaultProject}' is not a configured project name` });
+    }
+});
+
+export type Credentials = z.infer<typeof CredentialsSchema>;
+
+export interface ProjectConfig {
+    // The alias, or the project ID when there is none
+    name: string;
+    projectId: string;
+    database?: string;
+    // Every database tool calls may use, the project's default database first
+    databases: string[];
+    credentials: Credentials;
+    readOnly: boolean;
+    collections?: z.infer<typeof CollectionRulesSchema>;
+    schemas: Record<string, Record<string, any>>;
+    schemasCollection?: string;
+}
+
+export interface ServerConfig {
+    // The config file, or "environment" when projects come from environment variables
+    source: string;
+    defaultProject: string;
+    projects: ProjectConfig[];
+}
+
+export interface ProjectHealth {
+    project: ProjectConfig;
+    status: "ready" | "error";
+    error?: string;
+}
+
+// Load the configuration file, falling back to the environment variables when there is none
+export function loadConfig(rootDir: string): ServerConfig {
+    const configFile = process.env.FIRESTORE_MCP_CONFIG
+        ? path.resolve(process.env.FIRESTORE_MCP_CONFIG)
+        : CONFIG_FILE_NAMES.map(name => path.resolve(rootDir, name)).find(file => fs.existsSync(file));
+
+    return configFile ? configFromFile(configFile) : configFromEnvironment(path.resolve(rootDir, "keys"));
+}
+
+function readJsonOrYaml(file: string): any {
+    const text = fs.readFileSync(file, "utf8");
+    return /\.ya?ml$/i.test(file) ? YAML.parse(text) : JSON.parse(text);
+}
+
+function configFromFile(configFile: string): ServerConfig {
+    const raw = readJsonOrYaml(configFile);
+
+    const parsed = ConfigSchema.safeParse(raw);
+    if (!parsed.success) {
+        const problems = parsed.error.errors.map(e => `  ${e.path.join(".") || "(root)"}: ${e.message}`).join("\n");
+        throw new Error(`Invalid configuration in ${configFile}:\n${problems}`);
+    }
+
+    // Key and schema file paths are relative to the config file
+    const configDir = path.dirname(configFile);
+    const problems: string[] = [];
+    const schemas = parsed.data.projects.map((project, index) => Object.fromEntries(Object.entries(project.schemas).map(([pattern, schema]) => {
+        const location = `projects.${index}.schemas.${pattern}`;
+        let resolved: Record<string, any> = {};
+        try {
+            resolved = typeof schema === "string" ? readJsonOrYaml(path.resolve(configDir, schema)) : schema;
+            const problem = schemaProblem(resolved);
+            if (problem) {
+                problems.push(`  ${location}: ${problem}`);
+            }
+        } catch (error) {
+            problems.push(`  ${location}: ${(error as Error).message}`);
+        }
+        return [pattern, resolved];
+    })));
+    if (problems.length > 0) {
+        throw new Error(`Invalid schemas in ${configFile}:\n${problems.join("\n")}`);
+    }
+
+    const projects = parsed.data.projects.map((project, index) => ({
+        name: project.alias ?? project.projectId,
+        projectId: project.projectId,
+        database: project.database,
+        databases: [...new Set([project.database ?? DEFAULT_DATABASE, ...project.databases])],
+        credentials: project.credentials.type === "keyFile"
+            ? { type: "keyFile" as const, path: path.resolve(configDir, project.credentials.path ?? path.join("keys", `${project.projectId}.json`)) }
+            : project.credentials,
+        readOnly: project.readOnly,
+        collections: project.collections,
+        schemas: schemas[index],
+        schemasCollection: project.schemasCollection,
+    }));
+
+    return {
+        source: configFile,
+        defaultProject: parsed.data.defaultProject ?? projects[0].name,
+        projects,
+    };
+}
+
+// The configuration implied by GOOGLE_CLOUD_PROJECTS and the emulator variables
+function configFromEnvironment(keysDir: string): ServerConfig {
+    // FIRESTORE_EMULATOR_HOST takes precedence over per-project hosts inside the Firestore SDK
+    const globalEmulatorHost = process.env.FIRESTORE_EMULATOR_HOST?.trim() || undefined;
+    const emulatorHosts: Record<string, string> = {};
+    for (const entry of (process.env.FIRESTORE_EMULATOR_PROJECTS || "").split(',')) {
+        const [projectId, host] = entry.split('=').map(part => part.trim());
+        if (projectId) {
+            emulatorHosts[projectId] = globalEmulatorHost || host || DEFAULT_EMULATOR_HOST;
+        }
+    }
+
+    // Projects from GOOGLE_CLOUD_PROJECTS, followed by any emulated projects not listed there
+    const projectIds = process.env.GOOGLE_CLOUD_PROJECTS
+        ? process.env.GOOGLE_CLOUD_PROJECTS.split(',').map(projectId => projectId.trim()).filter(projectId => projectId.length > 0)
+        : (Object.keys(emulatorHosts).length > 0 ? [] : ["google-project-id1"]);
+    for (const projectId of Object.keys(emulatorHosts)) {
+        if (!projectIds.includes(projectId)) {
+            projectIds.push(projectId);
+        }
+    }
+
+    const projects = projectIds.map(projectId => {
+        const keyPath = path.resolve(keysDir, `${projectId}.json`);
+        const emulatorHost = globalEmulatorHost || emulatorHosts[projectId];
+
+        // A project's own key file wins over GOOGLE_APPLICATION_CREDENTIALS, which is shared by every project
+        let credentials: Credentials;
+        if (emulatorHost) {
+            credentials = { type: "emulator", host: emulatorHost };
+        } else if (!fs.existsSync(keyPath) && process.env.GOOGLE_APPLICATION_CREDENTIALS) {
+            credentials = { type: "applicationDefault" };
+        } else {
+            credentials = { type: "keyFile", path: keyPath };
+        }
+
+        return { name: projectId, projectId, databases: [DEFAULT_DATABASE], credentials, readOnly: false, schemas: {} };
+    });
+
+    return { source: "environment", defaultProject: projectIds[0], projects };
+}
+
+// Describe where a project's credentials come from
+export function describeCredentials(credentials: Credentials): string {
+    switch (credentials.type) {
+        case "keyFile":
+            return `key file ${credentials.path}`;
+        case "applicationDefault":
+            return "application default credentials";
+        case "emulator":
+            return `emulator at ${credentials.host}`;
+    }
+}
+
+// A readable summary of every configured project and whether it could be initialized
+export function formatHealthReport(config: ServerConfig, health: ProjectHealth[]): string {
+    const ready = health.filter(entry => entry.status === "ready").length;
+    const lines = [`Firestore projects (${ready} of ${health.length} ready, configured from ${config.source}):`];
+
+    for (const { project, status, error } of health) {
+        const target = project.database ? `${project.projectId}/${project.database}` : project.projectId;
+        const flags = [
+            project.name === config.defaultProject ? "default" : "",
+            project.readOnly ? "read-only" : "",
+        ].filter(flag => flag.length > 0);
+
+        const otherDatabases = project.databases.slice(1);
+        lines.push(`  [${status === "ready" ? " OK  " : "ERROR"}] ${project.name}${project.name !== target ? ` (${target})` : ""}` +
+            ` - ${describeCredentials(project.credentials)}${flags.length > 0 ? ` [${flags.join(", ")}]` : ""}` +
+            (otherDatabases.length > 0 ? `, also databases ${otherDatabases.join(", ")}` : ""));
+        if (error) {
+            lines.push(`          ${error}`);
+        }
+    }
+
+    return lines.join("\n");
+}
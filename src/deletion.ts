@@ -0,0 +1,186 @@
+/**
+ * Recursive deletes of documents and collections, guarded by a preview and a confirmation token
+ *
+ * A preview counts the documents a delete would remove and issues a confirmation token bound to the
+ * project, database, path and count. The token expires after a few minutes and is only valid in the
+ * server process that issued it.
+ */
+
+import crypto from "crypto";
+import { FieldPath } from "firebase-admin/firestore";
+
+// How long a confirmation token stays valid
+const CONFIRMATION_TTL_MS = 10 * 60 * 1000;
+
+// Subcollections are listed for this many documents at a time
+const LIST_CONCURRENCY = 20;
+
+// Documents are read for deletion this many at a time
+const DELETE_PAGE_SIZE = 500;
+
+// Signs confirmation tokens; a restart invalidates outstanding tokens
+const tokenSecret = crypto.randomBytes(32);
+
+export interface DeletionTarget {
+    project: string;
+    database?: string;
+    path: string;
+}
+
+export interface DeletionCount {
+    documents: number;
+    collections: number;
+    // True when counting stopped because the limit was exceeded
+    exceeded: boolean;
+}
+
+interface TokenPayload extends DeletionTarget {
+    documents: number;
+    expiresAt: number;
+}
+
+// Count the documents and collections at and below a reference, stopping as soon as there are more than limit
+// documents. checkCollection is called with every collection path found and may throw to refuse the delete.
+export async function countDeletion(
+    ref: FirebaseFirestore.DocumentReference | FirebaseFirestore.CollectionReference,
+    limit: number,
+    checkCollection: (collectionPath: string) => void
+): Promise<DeletionCount> {
+    const count: DeletionCount = { documents: 0, collections: 0, exceeded: false };
+    let collections: FirebaseFirestore.CollectionReference[];
+
+    if ("listCollections" in ref) {
+        if ((await ref.get()).exists) {
+            count.documents++;
+        }
+        collections = await ref.listCollections();
+    } else {
+        collections = [ref];
+    }
+
+    while (collections.length > 0) {
+        const collection = collections.pop()!;
+        checkCollection(collection.path);
+        count.collections++;
+
+        // Count before listing, so an oversized collection is never listed in full
+        count.documents += (await collection.count().get()).data().count;
+        if (count.documents > limit) {
+            return { ...count, exceeded: true };
+        }
+
+        // Listing also returns missing documents that only hold subcollections
+        const docRefs = await collection.listDocuments();
+        for (let index = 0; index < docRefs.length; index += LIST_CONCURRENCY) {
+            const subcollections = await Promise.all(docRefs.slice(index, index + LIST_CONCURRENCY).map(docRef => docRef.listCollections()));
+            collections.push(...subcollections.flat());
+        }
+    }
+
+    return count;
+}
+
+function sign(encodedPayload: string): string {
+    return crypto.createHmac("sha256", tokenSecret).update(encodedPayload).digest("base64url");
+}
+
+// Issue a token that confirms deleting the previewed documents at a target
+export function issueConfirmationToken(target: DeletionTarget, documents: number): { token: string; expiresAt: string } {
+    const payload: TokenPayload = { ...target, documents, expiresAt: Date.now() + CONFIRMATION_TTL_MS };
+    const encodedPayload = Buffer.from(JSON.stringify(payload)).toString("base64url");
+    return { token: `${encodedPayload}.${sign(encodedPayload)}`, expiresAt: new Date(payload.expiresAt).toISOString() };
+}
+
+// Check a confirmation token against the target it is used for and return the previewed document count
+export function verifyConfirmationToken(token: string, target: DeletionTarget): number {
+    const [encodedPayload, signature = ""] = token.split(".");
+    const expected = sign(encodedPayload);
+    if (signature.length !== expected.length || !crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))) {
+        throw new Error("Invalid confirmation token");
+    }
+
+    const payload: TokenPayload = JSON.parse(Buffer.from(encodedPayload, "base64url").toString("utf8"));
+    if (payload.expiresAt < Date.now()) {
+        throw new Error("Confirmation token has expired; run the preview again");
+    }
+    if (payload.project !== target.project || payload.database !== target.database || payload.path !== target.path) {
+        throw new Error("Confirmation token was issued for a different path, project or database");
+    }
+    return payload.documents;
+}
+
+export interface DeletionResult {
+    deleted: number;
+    // True when deleting stopped at the limit with documents left
+    stopped: boolean;
+}
+
+// Delete a document or collection with everything below it, reporting the running count of deleted documents.
+// Deleting stops at limit documents, so documents added after the count are never deleted without confirmation.
+// checkCollection is called with every collection path found, as in countDeletion.
+export async function deleteRecursively(
+    ref: FirebaseFirestore.DocumentReference | FirebaseFirestore.CollectionReference,
+    limit: number,
+    checkCollection: (collectionPath: string) => void,
+    onProgress: (deleted: number) => void
+): Promise<DeletionResult> {
+    const bulkWriter = ref.firestore.bulkWriter();
+    const result: DeletionResult = { deleted: 0, stopped: false };
+    const failures: Error[] = [];
+    bulkWriter.onWriteResult(() => {
+        result.deleted++;
+        onProgress(result.deleted);
+    });
+
+    // Queue a delete, unless limit deletes are queued already
+    let queued = 0;
+    const queueDelete = (docRef: FirebaseFirestore.DocumentReference): boolean => {
+        if (queued >= limit) {
+            result.stopped = true;
+            return false;
+        }
+        queued++;
+        bulkWriter.delete(docRef).catch(error => failures.push(error));
+        return true;
+    };
+
+    try {
+        const collections = "listCollections" in ref ? await ref.listCollections() : [ref];
+        while (collections.length > 0 && !result.stopped) {
+            const collection = collections.pop()!;
+            checkCollection(collection.path);
+
+            const docRefs = await collection.listDocuments();
+            for (let index = 0; index < docRefs.length; index += LIST_CONCURRENCY) {
+                const subcollections = await Promise.all(docRefs.slice(index, index + LIST_CONCURRENCY).map(docRef => docRef.listCollections()));
+                collections.push(...subcollections.flat());
+            }
+
+            // Only existing documents are deleted and counted; a query skips the missing ones that only hold subcollections
+            let last: FirebaseFirestore.QueryDocumentSnapshot | undefined;
+            while (!result.stopped) {
+                let query = collection.orderBy(FieldPath.documentId()).select().limit(DELETE_PAGE_SIZE);
+                if (last) {
+                    query = query.startAfter(last);
+                }
+                const snapshot = await query.get();
+                if (!snapshot.docs.every(doc => queueDelete(doc.ref)) || snapshot.size < DELETE_PAGE_SIZE) {
+                    break;
+                }
+                last = snapshot.docs[snapshot.size - 1];
+            }
+        }
+
+        // A document goes after everything below it
+        if ("listCollections" in ref && !result.stopped && (await ref.get()).exists) {
+            queueDelete(ref);
+        }
+    } finally {
+        await bulkWriter.close();
+    }
+
+    if (failures.length > 0) {
+        throw failures[0];
+    }
+    return result;
+}
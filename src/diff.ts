@@ -0,0 +1,116 @@
+/**
+ * Field-level document diffs for dry-run previews of mutating tools
+ */
+
+import { isDeepStrictEqual } from "util";
+import { encodeValue, fieldTransform, FieldTransform } from "./encoding.js";
+
+export interface DocumentDiff {
+    added: Record<string, any>;
+    removed: Record<string, any>;
+    changed: Record<string, { before: any; after: any }>;
+}
+
+// Only plain objects are maps; Timestamps, GeoPoints and other class instances are leaf values
+function isPlainObject(value: any): value is Record<string, any> {
+    return !!value && typeof value === "object" && Object.getPrototypeOf(value) === Object.prototype;
+}
+
+// Flatten a document into dotted field paths of its leaf values (arrays are leaves)
+function flatten(data: Record<string, any>, prefix: string, result: Record<string, any>): Record<string, any> {
+    for (const [key, value] of Object.entries(data)) {
+        const fieldPath = prefix ? `${prefix}.${key}` : key;
+        if (isPlainObject(value) && Object.keys(value).length > 0) {
+            flatten(value, fieldPath, result);
+        } else {
+            result[fieldPath] = value;
+        }
+    }
+    return result;
+}
+
+// Resolve a field transform against the field's current value, the way Firestore applies it on commit.
+// Server timestamps stay pending, since their value is only known once written.
+function resolveTransform(transform: FieldTransform, sentinel: any, current: any): any {
+    const sameValue = (a: any, b: any) => isDeepStrictEqual(encodeValue(a), encodeValue(b));
+    switch (transform.kind) {
+        case "increment":
+            return typeof current === "number" ? current + transform.by : transform.by;
+        case "arrayUnion": {
+            const result = Array.isArray(current) ? [...current] : [];
+            for (const value of transform.values) {
+                if (!result.some(item => sameValue(item, value))) {
+                    result.push(value);
+                }
+            }
+            return result;
+        }
+        case "arrayRemove":
+            return Array.isArray(current) ? current.filter(item => !transform.values.some(value => sameValue(item, value))) : [];
+        default:
+            return sentinel;
+    }
+}
+
+// Write one field value into a map, resolving transforms and field deletes
+function writeField(target: Record<string, any>, key: string, value: any, merge: boolean): void {
+    const transform = fieldTransform(value);
+    if (transform?.kind === "deleteField") {
+        delete target[key];
+    } else if (transform) {
+        target[key] = resolveTransform(transform, value, target[key]);
+    } else if (isPlainObject(value)) {
+        target[key] = mergeData(merge && isPlainObject(target[key]) ? target[key] : null, value);
+    } else {
+        target[key] = value;
+    }
+}
+
+// Apply data to an existing document the way set(data, { merge: true }) does: maps merge recursively, everything else is replaced.
+// With a null document this is what set(data) and create(data) write.
+export function mergeData(existing: Record<string, any> | null, data: Record<string, any>): Record<string, any> {
+    const result: Record<string, any> = { ...(existing || {}) };
+    for (const [key, value] of Object.entries(data)) {
+        writeField(result, key, value, true);
+    }
+    return result;
+}
+
+// Apply data to an existing document the way update(data) does: keys are dotted field paths,
+// and each named field is replaced as a whole
+export function updateData(existing: Record<string, any>, data: Record<string, any>): Record<string, any> {
+    const result: Record<string, any> = { ...existing };
+    for (const [fieldPath, value] of Object.entries(data)) {
+        const segments = fieldPath.split(".");
+        let target = result;
+        for (const segment of segments.slice(0, -1)) {
+            // Copy each map on the way down so the existing document is left untouched
+            target[segment] = isPlainObject(target[segment]) ? { ...target[segment] } : {};
+            target = target[segment];
+        }
+        writeField(target, segments[segments.length - 1], value, false);
+    }
+    return result;
+}
+
+// Compare two versions of a document; null stands for a document that does not exist
+export function diffDocuments(before: Record<string, any> | null, after: Record<string, any> | null): DocumentDiff {
+    const beforeFields = flatten(before || {}, "", {});
+    const afterFields = flatten(after || {}, "", {});
+    const diff: DocumentDiff = { added: {}, removed: {}, changed: {} };
+
+    for (const [fieldPath, value] of Object.entries(afterFields)) {
+        if (!(fieldPath in beforeFields)) {
+            diff.added[fieldPath] = value;
+        } else if (!isDeepStrictEqual(encodeValue(beforeFields[fieldPath]), encodeValue(value))) {
+            diff.changed[fieldPath] = { before: beforeFields[fieldPath], after: value };
+        }
+    }
+    for (const [fieldPath, value] of Object.entries(beforeFields)) {
+        if (!(fieldPath in afterFields)) {
+            diff.removed[fieldPath] = value;
+        }
+    }
+
+    return diff;
+}
@@ -0,0 +1,238 @@
+/**
+ * Lossless JSON encoding of Firestore values
+ *
+ * Firestore types that JSON cannot represent are written as tagged objects:
+ * - Timestamp:         { "__type": "timestamp", "value": "2024-05-01T12:00:00.123456789Z" }
+ * - GeoPoint:          { "__type": "geopoint", "latitude": 52.37, "longitude": 4.89 }
+ * - DocumentReference: { "__type": "reference", "path": "users/uid" }
+ * - Bytes:             { "__type": "bytes", "base64": "AAEC" }
+ * - Vector:            { "__type": "vector", "values": [0.12, -0.5, 0.33] }
+ * - NaN and Infinity:  { "__type": "number", "value": "NaN" }
+ * - A map that has its own "__type" key: { "__type": "map", "value": { ... } }
+ *
+ * The same tags are accepted on input, along with the legacy { "_seconds", "_nanoseconds" } timestamp shape.
+ * Values a size budget has shortened ({ "__type": "truncated" }, see output.ts) are refused.
+ *
+ * Document data may also hold field transforms, applied by Firestore when the write is committed:
+ * - { "__type": "serverTimestamp" }
+ * - { "__type": "increment", "by": 1 }
+ * - { "__type": "arrayUnion", "values": [ ... ] }
+ * - { "__type": "arrayRemove", "values": [ ... ] }
+ * - { "__type": "deleteField" }
+ */
+
+import { DocumentReference, FieldValue, GeoPoint, Timestamp } from "firebase-admin/firestore";
+import { InvalidArgumentError } from "./errors.js";
+
+export type TimestampFormat = "tagged" | "iso";
+
+export interface EncodeOptions {
+    // "iso" writes timestamps as plain ISO-8601 strings, which are readable but decode as strings
+    timestamps?: TimestampFormat;
+}
+
+export interface DecodeOptions {
+    // Allow field transform sentinels, which Firestore only accepts in written document data
+    transforms?: boolean;
+}
+
+export type FieldTransform =
+    | { kind: "serverTimestamp" }
+    | { kind: "increment"; by: number }
+    | { kind: "arrayUnion"; values: any[] }
+    | { kind: "arrayRemove"; values: any[] }
+    | { kind: "deleteField" };
+
+// The transform behind each decoded sentinel, since FieldValue does not expose its operands
+const fieldTransforms = new WeakMap<FieldValue, FieldTransform>();
+
+// The SDK does not export the VectorValue class, only the type; take it from a vector it creates
+const VectorValue = FieldValue.vector([]).constructor as new (...args: any[]) => FirebaseFirestore.VectorValue;
+
+// ISO-8601 with up to nanosecond precision
+const ISO_TIMESTAMP = /^(\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2})(?:\.(\d{1,9}))?(Z|[+-]\d{2}:\d{2})$/;
+
+function isPlainObject(value: any): value is Record<string, any> {
+    return !!value && typeof value === "object" && Object.getPrototypeOf(value) === Object.prototype;
+}
+
+// Whether a value is a Firestore vector, as written with FieldValue.vector()
+export function isVectorValue(value: any): value is FirebaseFirestore.VectorValue {
+    return value instanceof VectorValue;
+}
+
+// The transform a decoded sentinel stands for, or undefined for any other value
+export function fieldTransform(value: any): FieldTransform | undefined {
+    return value instanceof FieldValue ? fieldTransforms.get(value) : undefined;
+}
+
+function toFieldValue(transform: FieldTransform): FieldValue {
+    let sentinel: FieldValue;
+    switch (transform.kind) {
+        case "serverTimestamp":
+            sentinel = FieldValue.serverTimestamp();
+            break;
+        case "increment":
+            sentinel = FieldValue.increment(transform.by);
+            break;
+        case "arrayUnion":
+            sentinel = FieldValue.arrayUnion(...transform.values);
+            break;
+        case "arrayRemove":
+            sentinel = FieldValue.arrayRemove(...transform.values);
+            break;
+        case "deleteField":
+            sentinel = FieldValue.delete();
+            break;
+    }
+    fieldTransforms.set(sentinel, transform);
+    return sentinel;
+}
+
+// Format a Timestamp as ISO-8601 without losing its nanoseconds
+export function timestampToIso(timestamp: Timestamp): string {
+    const base = new Date(timestamp.seconds * 1000).toISOString().slice(0, 19);
+    const fraction = timestamp.nanoseconds > 0
+        ? `.${String(timestamp.nanoseconds).padStart(9, "0").replace(/0+$/, "")}`
+        : "";
+    return `${base}${fraction}Z`;
+}
+
+// Parse an ISO-8601 string into a Timestamp, keeping up to nanosecond precision
+export function isoToTimestamp(iso: string): Timestamp {
+    const match = ISO_TIMESTAMP.exec(iso);
+    const millis = match ? Date.parse(`${match[1]}${match[3]}`) : NaN;
+    if (!match || Number.isNaN(millis)) {
+        throw new InvalidArgumentError(`Invalid ISO-8601 timestamp: ${iso}`);
+    }
+    return new Timestamp(Math.floor(millis / 1000), Number((match[2] || "").padEnd(9, "0")));
+}
+
+// Convert a Firestore value into JSON-safe data
+export function encodeValue(value: any, options: EncodeOptions = {}): any {
+    if (value === null || value === undefined) {
+        return value;
+    }
+    if (typeof value === "number") {
+        return Number.isFinite(value) ? value : { __type: "number", value: String(value) };
+    }
+    if (value instanceof Timestamp) {
+        return options.timestamps === "iso"
+            ? timestampToIso(value)
+            : { __type: "timestamp", value: timestampToIso(value) };
+    }
+    if (value instanceof GeoPoint) {
+        return { __type: "geopoint", latitude: value.latitude, longitude: value.longitude };
+    }
+    if (value instanceof DocumentReference) {
+        return { __type: "reference", path: value.path };
+    }
+    if (value instanceof Uint8Array) {
+        return { __type: "bytes", base64: Buffer.from(value).toString("base64") };
+    }
+    if (isVectorValue(value)) {
+        return { __type: "vector", values: value.toArray() };
+    }
+    if (Array.isArray(value)) {
+        return value.map(item => encodeValue(item, options));
+    }
+    const transform = fieldTransform(value);
+    if (transform) {
+        // Pending transforms, as shown in dry-run previews, keep their input shape
+        const { kind, ...operands } = transform;
+        return { __type: kind, ...encodeValue(operands, options) };
+    }
+    if (typeof value === "object") {
+        const result: Record<string, any> = {};
+        for (const [key, item] of Object.entries(value)) {
+            result[key] = encodeValue(item, options);
+        }
+        // Keep maps that happen to have a "__type" field from being read back as a tagged value
+        return "__type" in result ? { __type: "map", value: result } : result;
+    }
+    return value;
+}
+
+// Convert JSON input (tagged values, legacy timestamp objects) into Firestore values
+export function decodeValue(value: any, firestore: FirebaseFirestore.Firestore, options: DecodeOptions = {}): any {
+    if (Array.isArray(value)) {
+        // Firestore does not allow transforms inside arrays
+        return value.map(item => decodeValue(item, firestore, { ...options, transforms: false }));
+    }
+    if (!isPlainObject(value)) {
+        return value;
+    }
+
+    if (typeof value.__type === "string") {
+        switch (value.__type) {
+            case "timestamp":
+                if (typeof value.value === "string") {
+                    return isoToTimestamp(value.value);
+                }
+                return new Timestamp(Number(value.seconds), Number(value.nanoseconds || 0));
+            case "geopoint":
+                return new GeoPoint(Number(value.latitude), Number(value.longitude));
+            case "reference":
+                return firestore.doc(String(value.path));
+            case "bytes":
+                return Buffer.from(String(value.base64), "base64");
+            case "number":
+                return Number(value.value);
+            case "vector":
+                if (!Array.isArray(value.values) || !value.values.every((item: any) => typeof item === "number" && Number.isFinite(item))) {
+                    throw new InvalidArgumentError("'vector' requires a 'values' array of finite numbers");
+                }
+                return FieldValue.vector(value.values);
+            case "map":
+                return decodeMap(value.value, firestore, options);
+            case "truncated":
+                throw new InvalidArgumentError("Truncated values cannot be written; read the document again without a size budget");
+            case "serverTimestamp":
+            case "increment":
+            case "arrayUnion":
+            case "arrayRemove":
+            case "deleteField":
+                return decodeTransform(value, firestore, options);
+            default:
+                throw new InvalidArgumentError(`Unknown value type '${value.__type}'`);
+        }
+    }
+
+    // Legacy timestamp shape, as produced by JSON.stringify(Timestamp)
+    if ("_seconds" in value && "_nanoseconds" in value &&
+        typeof value._seconds === "number" && typeof value._nanoseconds === "number") {
+        return new Timestamp(value._seconds, value._nanoseconds);
+    }
+
+    return decodeMap(value, firestore, options);
+}
+
+function decodeMap(value: Record<string, any>, firestore: FirebaseFirestore.Firestore, options: DecodeOptions): Record<string, any> {
+    const result: Record<string, any> = {};
+    for (const [key, item] of Object.entries(value || {})) {
+        result[key] = decodeValue(item, firestore, options);
+    }
+    return result;
+}
+
+function decodeTransform(value: Record<string, any>, firestore: FirebaseFirestore.Firestore, options: DecodeOptions): FieldValue {
+    if (!options.transforms) {
+        throw new InvalidArgumentError(`'${value.__type}' is only allowed as a field value in document data, not inside arrays, filters or cursors`);
+    }
+
+    switch (value.__type) {
+        case "increment":
+            if (typeof value.by !== "number" || !Number.isFinite(value.by)) {
+                throw new InvalidArgumentError("'increment' requires a finite number 'by'");
+            }
+            return toFieldValue({ kind: "increment", by: value.by });
+        case "arrayUnion":
+        case "arrayRemove":
+            if (!Array.isArray(value.values)) {
+                throw new InvalidArgumentError(`'${value.__type}' requires a 'values' array`);
+            }
+            return toFieldValue({ kind: value.__type, values: decodeValue(value.values, firestore) });
+        default:
+            return toFieldValue({ kind: value.__type });
+    }
+}
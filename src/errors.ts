@@ -0,0 +1,204 @@
+/**
+ * Structured reporting of Firestore (gRPC) errors
+ *
+ * Each gRPC status code maps to an error name, its code and whether retrying the same call may succeed.
+ * A query that needs a composite index fails with FAILED_PRECONDITION and a console link to create the
+ * index; the link carries the index definition, which is turned into a firestore.indexes.json snippet.
+ * A vector search without its vector index names a gcloud command instead, which is passed on as is.
+ *
+ * Errors caused by the caller's input are InvalidArgumentErrors, or argument checks of the Firestore SDK
+ * that fail before a request is sent; both are reported as INVALID_ARGUMENT.
+ */
+
+interface ErrorKind {
+    code: string;
+    error: string;
+    retryable: boolean;
+    hint?: string;
+}
+
+// Indexed by gRPC status code
+const ERROR_KINDS: ErrorKind[] = [
+    { code: "OK", error: "OK", retryable: false },
+    { code: "CANCELLED", error: "Cancelled", retryable: true },
+    { code: "UNKNOWN", error: "Unknown error", retryable: true },
+    { code: "INVALID_ARGUMENT", error: "Invalid argument", retryable: false },
+    { code: "DEADLINE_EXCEEDED", error: "Deadline exceeded", retryable: true, hint: "Retry, or narrow the request with filters or a smaller limit" },
+    { code: "NOT_FOUND", error: "Not found", retryable: false },
+    { code: "ALREADY_EXISTS", error: "Already exists", retryable: false },
+    { code: "PERMISSION_DENIED", error: "Permission denied", retryable: false, hint: "The service account lacks the IAM permission for this operation, or Firestore security rules refuse it" },
+    { code: "RESOURCE_EXHAUSTED", error: "Quota exceeded", retryable: true, hint: "Retry after a delay with exponential backoff" },
+    { code: "FAILED_PRECONDITION", error: "Failed precondition", retryable: false },
+    { code: "ABORTED", error: "Aborted", retryable: true, hint: "The operation conflicted with a concurrent one; retry it" },
+    { code: "OUT_OF_RANGE", error: "Out of range", retryable: false },
+    { code: "UNIMPLEMENTED", error: "Unimplemented", retryable: false },
+    { code: "INTERNAL", error: "Internal Firestore error", retryable: true },
+    { code: "UNAVAILABLE", error: "Unavailable", retryable: true, hint: "Firestore is temporarily unreachable; retry with backoff" },
+    { code: "DATA_LOSS", error: "Data loss", retryable: false },
+    { code: "UNAUTHENTICATED", error: "Unauthenticated", retryable: false, hint: "Check the project's credentials" },
+];
+
+const FAILED_PRECONDITION = 9;
+
+// The console link Firestore includes when a query needs an index
+const INDEX_URL = /https:\/\/console\.firebase\.google\.com\/\S*create_(?:composite|exemption)=[A-Za-z0-9_\-+/=%]+/;
+
+// The command Firestore suggests when a vector search lacks its vector index
+const INDEX_COMMAND = /gcloud (?:alpha )?firestore indexes composite create .*$/s;
+
+// Enum values of the google.firestore.admin.v1.Index message
+const QUERY_SCOPES = ["QUERY_SCOPE_UNSPECIFIED", "COLLECTION", "COLLECTION_GROUP", "COLLECTION_GROUP_ONLY"];
+const ORDERS = ["ORDER_UNSPECIFIED", "ASCENDING", "DESCENDING"];
+const ARRAY_CONFIGS = ["ARRAY_CONFIG_UNSPECIFIED", "CONTAINS"];
+
+interface IndexField {
+    fieldPath: string;
+    order?: string;
+    arrayConfig?: string;
+}
+
+interface IndexDefinition {
+    collectionGroup: string;
+    queryScope: string;
+    fields: IndexField[];
+}
+
+type ProtoFields = Map<number, (number | Buffer)[]>;
+
+// Decode one level of a protobuf message: varints as numbers, length-delimited fields as bytes
+function decodeProto(bytes: Buffer): ProtoFields {
+    const fields: ProtoFields = new Map();
+    let offset = 0;
+
+    const readVarint = (): number => {
+        let result = 0;
+        let shift = 0;
+        while (true) {
+            if (offset >= bytes.length) throw new Error("Truncated varint");
+            const byte = bytes[offset++];
+            result += (byte & 0x7f) * 2 ** shift;
+            if ((byte & 0x80) === 0) return result;
+            shift += 7;
+        }
+    };
+
+    while (offset < bytes.length) {
+        const key = readVarint();
+        const fieldNumber = Math.floor(key / 8);
+        const wireType = key & 7;
+        let value: number | Buffer;
+        if (wireType === 0) {
+            value = readVarint();
+        } else if (wireType === 2) {
+            const length = readVarint();
+            if (offset + length > bytes.length) throw new Error("Truncated field");
+            value = bytes.subarray(offset, offset + length);
+            offset += length;
+        } else if (wireType === 1 || wireType === 5) {
+            // Fixed-width values do not occur in an index definition; skip them
+            offset += wireType === 1 ? 8 : 4;
+            continue;
+        } else {
+            throw new Error(`Unsupported wire type ${wireType}`);
+        }
+        fields.set(fieldNumber, [...(fields.get(fieldNumber) || []), value]);
+    }
+    return fields;
+}
+
+// Read the index definition encoded in a console link (a base64 google.firestore.admin.v1.Index message)
+export function indexFromUrl(indexUrl: string): IndexDefinition | null {
+    try {
+        // Read the parameter by hand: URLSearchParams would turn a "+" of the base64 text into a space
+        const encoded = /[?&]create_composite=([^&#]+)/.exec(indexUrl)?.[1];
+        if (!encoded) return null;
+        const index = decodeProto(Buffer.from(decodeURIComponent(encoded), "base64"));
+
+        // Field 1 is the index name: projects/{p}/databases/{d}/collectionGroups/{collectionGroup}/indexes/{id}
+        const name = (index.get(1)?.[0] as Buffer | undefined)?.toString("utf8") || "";
+        const collectionGroup = /\/collectionGroups\/([^/]+)/.exec(name)?.[1];
+        if (!collectionGroup) return null;
+
+        const fields = (index.get(3) || []).map(value => {
+            const field = decodeProto(value as Buffer);
+            const order = field.get(2)?.[0] as number | undefined;
+            const arrayConfig = field.get(3)?.[0] as number | undefined;
+            return {
+                fieldPath: (field.get(1)?.[0] as Buffer).toString("utf8"),
+                ...(order ? { order: ORDERS[order] } : {}),
+                ...(arrayConfig ? { arrayConfig: ARRAY_CONFIGS[arrayConfig] } : {}),
+            };
+        });
+
+        return {
+            collectionGroup: decodeURIComponent(collectionGroup),
+            queryScope: QUERY_SCOPES[(index.get(2)?.[0] as number | undefined) ?? 1] || "COLLECTION",
+            fields,
+        };
+    } catch {
+        return null;
+    }
+}
+
+// Raised for a tool argument that cannot be used as given, such as an unknown tagged value or a stale page token
+export class InvalidArgumentError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "InvalidArgumentError";
+    }
+}
+
+// Messages of the argument checks the Firestore SDK runs before sending a request
+const SDK_ARGUMENT_ERROR = /^(?:Value for argument "|Element at index \d+ |Function "[^"]+" (?:requires|accepts) |Invalid Query\. |Invalid collectionId |Too many cursor values |The corresponding value for FieldPath\.documentId\(\) |Field "[^"]+" is missing in the provided |Input data is missing for field )/;
+
+// Whether an error was caused by the caller's input rather than by Firestore or the server
+export function isInvalidArgumentError(error: unknown): error is Error {
+    return error instanceof InvalidArgumentError ||
+        (error instanceof Error && !isFirestoreError(error) && SDK_ARGUMENT_ERROR.test(error.message));
+}
+
+// Whether an error came from Firestore's gRPC API
+export function isFirestoreError(error: unknown): error is Error & { code: number; details?: string } {
+    const code = (error as { code?: unknown } | null)?.code;
+    return error instanceof Error && typeof code === "number" && Number.isInteger(code) && code > 0 && code < ERROR_KINDS.length;
+}
+
+// Describe a Firestore error for a tool result
+export function describeFirestoreError(error: Error & { code: number; details?: string }): Record<string, any> {
+    const kind = ERROR_KINDS[error.code];
+    const message = error.details || error.message.replace(/^\d+ [A-Z_]+: /, "");
+    const indexUrl = error.code === FAILED_PRECONDITION ? INDEX_URL.exec(message)?.[0] : undefined;
+
+    if (indexUrl) {
+        const index = indexFromUrl(indexUrl);
+        return {
+            error: "Missing index",
+            code: kind.code,
+            retryable: false,
+            message,
+            indexUrl,
+            ...(index ? { firestoreIndexes: { indexes: [index], fieldOverrides: [] } } : {}),
+            hint: "Create the index with indexUrl, or add it to firestore.indexes.json and run 'firebase deploy --only firestore:indexes'. Retry once the index has finished building."
+        };
+    }
+
+    const indexCommand = error.code === FAILED_PRECONDITION ? INDEX_COMMAND.exec(message)?.[0].trim() : undefined;
+    if (indexCommand) {
+        return {
+            error: "Missing index",
+            code: kind.code,
+            retryable: false,
+            message,
+            indexCommand,
+            hint: "Create the vector index with indexCommand. Retry once the index has finished building."
+        };
+    }
+
+    return {
+        error: kind.error,
+        code: kind.code,
+        retryable: kind.retryable,
+        message,
+        ...(kind.hint ? { hint: kind.hint } : {}),
+    };
+}
@@ -0,0 +1,196 @@
+/**
+ * HTTP transport: MCP over Streamable HTTP, and over Server-Sent Events for older clients
+ *
+ * Streamable HTTP clients post to /mcp; the initialize request opens a session whose ID is returned in the
+ * Mcp-Session-Id header and sent with every later request. Older clients open an event stream with GET /sse
+ * and post their messages to /messages?sessionId=... Each session gets its own MCP server; all sessions share
+ * the process's Firestore clients.
+ *
+ * Environment variables:
+ * - FIRESTORE_HTTP_HOST: Address to bind (defaults to 127.0.0.1)
+ * - FIRESTORE_HTTP_PORT: Port to listen on (defaults to 3000)
+ * - FIRESTORE_HTTP_TOKEN: Comma-separated bearer tokens accepted in the Authorization header.
+ *   Required unless the server is bound to a loopback address.
+ *
+ * Without tokens, requests must name the server by a loopback address in their Host header, and browser
+ * requests must come from a page on such an address. Otherwise any web page could reach the server
+ * through the browser, for example by rebinding its own domain name to 127.0.0.1.
+ */
+
+import http from "http";
+import crypto from "crypto";
+import { AddressInfo } from "net";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+
+export interface HttpServerOptions {
+    host: string;
+    port: number;
+    tokens: string[];
+    // Creates the MCP server for a new session
+    createServer: () => Server;
+}
+
+const MCP_PATH = "/mcp";
+const SSE_PATH = "/sse";
+const MESSAGES_PATH = "/messages";
+
+const LOOPBACK_HOSTS = new Set(["127.0.0.1", "::1", "localhost"]);
+
+// Read the HTTP transport settings from the environment
+export function loadHttpOptions(createServer: () => Server): HttpServerOptions {
+    const host = process.env.FIRESTORE_HTTP_HOST || "127.0.0.1";
+    const port = Number(process.env.FIRESTORE_HTTP_PORT || 3000);
+    const tokens = (process.env.FIRESTORE_HTTP_TOKEN || "").split(",").map(token => token.trim()).filter(token => token.length > 0);
+
+    if (!Number.isInteger(port) || port < 0 || port > 65535) {
+        throw new Error(`Invalid FIRESTORE_HTTP_PORT: ${process.env.FIRESTORE_HTTP_PORT}`);
+    }
+    if (tokens.length === 0 && !LOOPBACK_HOSTS.has(host)) {
+        throw new Error(`FIRESTORE_HTTP_TOKEN is required when binding to ${host}`);
+    }
+
+    return { host, port, tokens, createServer };
+}
+
+// Compare in constant time so response timing does not reveal how much of a token matched
+function tokenMatches(supplied: string, token: string): boolean {
+    const suppliedHash = crypto.createHash("sha256").update(supplied).digest();
+    const tokenHash = crypto.createHash("sha256").update(token).digest();
+    return crypto.timingSafeEqual(suppliedHash, tokenHash);
+}
+
+function isAuthorized(req: http.IncomingMessage, tokens: string[]): boolean {
+    if (tokens.length === 0) {
+        return true;
+    }
+    const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization || "");
+    return !!match && tokens.some(token => tokenMatches(match[1].trim(), token));
+}
+
+// Whether a host[:port] names this server by a loopback address
+function isLoopbackHost(host: string | undefined, port: number): boolean {
+    if (!host) {
+        return false;
+    }
+    let url: URL;
+    try {
+        url = new URL(`http://${host}`);
+    } catch {
+        return false;
+    }
+    return LOOPBACK_HOSTS.has(url.hostname.replace(/^\[|\]$/g, "")) && Number(url.port || 80) === port;
+}
+
+// Whether a request is addressed to this server on a loopback address, and not sent by a page from another origin
+function isLocalRequest(req: http.IncomingMessage, port: number): boolean {
+    if (!isLoopbackHost(req.headers.host, port)) {
+        return false;
+    }
+    const origin = req.headers.origin;
+    if (origin === undefined) {
+        return true;
+    }
+    try {
+        const url = new URL(origin);
+        return url.protocol === "http:" && isLoopbackHost(url.host, port);
+    } catch {
+        return false;
+    }
+}
+
+function sendError(res: http.ServerResponse, status: number, message: string, headers: Record<string, string> = {}): void {
+    res.writeHead(status, { "Content-Type": "application/json", ...headers }).end(JSON.stringify({ error: message }));
+}
+
+// Start serving MCP sessions over HTTP; resolves once the server is listening
+export async function startHttpServer(options: HttpServerOptions): Promise<http.Server> {
+    const sessions = new Map<string, SSEServerTransport>();
+    const streamableSessions = new Map<string, StreamableHTTPServerTransport>();
+
+    const httpServer = http.createServer(async (req, res) => {
+        const url = new URL(req.url || "/", "http://localhost");
+
+        if (!isAuthorized(req, options.tokens)) {
+            sendError(res, 401, "Unauthorized", { "WWW-Authenticate": "Bearer" });
+            return;
+        }
+
+        // Tokens cannot be sent by other pages, so the Host and Origin checks only matter without them
+        if (options.tokens.length === 0 && !isLocalRequest(req, (httpServer.address() as AddressInfo).port)) {
+            sendError(res, 403, "Forbidden host or origin");
+            return;
+        }
+
+        try {
+            if (url.pathname === MCP_PATH) {
+                const sessionId = req.headers["mcp-session-id"];
+                if (typeof sessionId === "string") {
+                    const transport = streamableSessions.get(sessionId);
+                    if (!transport) {
+                        sendError(res, 404, "Unknown or closed session");
+                        return;
+                    }
+                    await transport.handleRequest(req, res);
+                } else if (req.method === "POST") {
+                    // Only an initialize request may come without a session; the transport refuses anything else
+                    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+                        sessionIdGenerator: () => crypto.randomUUID(),
+                        onsessioninitialized: sessionId => {
+                            streamableSessions.set(sessionId, transport);
+                            console.error(`Session ${sessionId} connected (${sessions.size + streamableSessions.size} open)`);
+                        },
+                    });
+                    transport.onclose = () => {
+                        if (transport.sessionId) {
+                            streamableSessions.delete(transport.sessionId);
+                        }
+                    };
+                    const server = options.createServer();
+                    await server.connect(transport);
+                    await transport.handleRequest(req, res);
+                    if (!transport.sessionId) {
+                        await server.close();
+                    }
+                } else {
+                    sendError(res, 400, "Missing Mcp-Session-Id header");
+                }
+            } else if (req.method === "GET" && url.pathname === SSE_PATH) {
+                const transport = new SSEServerTransport(MESSAGES_PATH, res);
+                const server = options.createServer();
+                sessions.set(transport.sessionId, transport);
+                res.on("close", () => {
+                    sessions.delete(transport.sessionId);
+                    server.close().catch(error => console.error("Error closing session:", error));
+                });
+                // connect() starts the transport, which opens the event stream
+                await server.connect(transport);
+                console.error(`Session ${transport.sessionId} connected (${sessions.size + streamableSessions.size} open)`);
+            } else if (req.method === "POST" && url.pathname === MESSAGES_PATH) {
+                const transport = sessions.get(url.searchParams.get("sessionId") || "");
+                if (!transport) {
+                    sendError(res, 404, "Unknown or closed session");
+                    return;
+                }
+                await transport.handlePostMessage(req, res);
+            } else {
+                sendError(res, 404, "Not found");
+            }
+        } catch (error) {
+            console.error("Error handling HTTP request:", error);
+            if (!res.headersSent) {
+                sendError(res, 500, "Internal server error");
+            }
+        }
+    });
+
+    await new Promise<void>((resolve, reject) => {
+        httpServer.once("error", reject);
+        httpServer.listen(options.port, options.host, () => {
+            httpServer.off("error", reject);
+            resolve();
+        });
+    });
+    return httpServer;
+}
@@ -6,8 +6,33 @@
  * This server provides a Model Context Protocol interface for Google Cloud Firestore.
  * 
  * Environment variables:
- * - GOOGLE_CLOUD_PROJECTS: Comma-separated list of project-ids
+ * - FIRESTORE_MCP_CONFIG: Path of a JSON or YAML file configuring the projects, see config.ts
+ * - GOOGLE_CLOUD_PROJECTS: Comma-separated list of project-ids, used when there is no config file
  *   Example: "google-project-id1,google-project-id2"
+ * - FIRESTORE_EMULATOR_HOST: Host and port of a Firestore emulator; when set, every project uses it
+ *   Example: "localhost:8080"
+ * - FIRESTORE_EMULATOR_PROJECTS: Comma-separated list of project-ids to run against an emulator,
+ *   each optionally followed by "=host:port" (defaults to FIRESTORE_EMULATOR_HOST or localhost:8080),
+ *   used when there is no config file
+ *   Example: "demo-project,demo-other=localhost:8081"
+ * - FIRESTORE_TIMESTAMP_FORMAT: "iso" to return timestamps as ISO-8601 strings instead of tagged values
+ * - FIRESTORE_READ_ONLY, FIRESTORE_POLICY_FILE: Access policy, see policy.ts
+ * - FIRESTORE_AUDIT_LOG: Path of the JSONL audit log (defaults to logs/audit.jsonl, "off" disables it)
+ * - FIRESTORE_AUDIT_MAX_BYTES, FIRESTORE_AUDIT_MAX_FILES: Audit log rotation size and number of files kept
+ *   (default 10 MiB and 5 files)
+ * - FIRESTORE_PROMPTS_COLLECTION, FIRESTORE_PROMPTS_PROJECT: Where MCP prompts are stored
+ *   (defaults to the "prompts" collection of the default project)
+ * - FIRESTORE_AUDIT_COLLECTION: Optional Firestore collection that also receives audit records,
+ *   in FIRESTORE_AUDIT_PROJECT or the default project
+ * - FIRESTORE_TRANSPORT: "http" to serve MCP over Streamable HTTP (and Server-Sent Events) instead of stdio;
+ *   FIRESTORE_HTTP_HOST, FIRESTORE_HTTP_PORT and FIRESTORE_HTTP_TOKEN configure it, see http.ts
+ * - FIRESTORE_DELETE_MAX_DOCUMENTS: Most documents one deleteRecursive call may delete (default 1000)
+ * - FIRESTORE_EXPORT_DIR: Directory exportCollection writes to and importCollection reads from (defaults to exports/)
+ * - FIRESTORE_DESCRIBE_MAX_DOCUMENTS: Most documents one describeCollection call may sample (default 1000)
+ * - FIRESTORE_SCHEMAS_COLLECTION: Firestore collection of JSON Schemas that writes are validated against,
+ *   in every project without its own schemasCollection, see validation.ts
+ * - FIRESTORE_COMPACT_OUTPUT: "true" to return tool results as JSON without indentation
+ * - FIRESTORE_MAX_RESPONSE_BYTES: Default size budget of the tools that return documents, see output.ts
  */
 
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
@@ -17,6 +42,16 @@ import {
     ListToolsRequestSchema,
     ListResourcesRequestSchema,
     ListResourcesResultSchema,
+    ListResourceTemplatesRequestSchema,
+    ReadResourceRequestSchema,
+    ListPromptsRequestSchema,
+    GetPromptRequestSchema,
+    McpError,
+    ErrorCode,
+    ReadResourceRequest,
+    ListPromptsRequest,
+    GetPromptRequest,
+    CallToolRequest,
 } from "@modelcontextprotocol/sdk/types.js";
 import { z } from "zod";
 import admin from "firebase-admin";
@@ -25,50 +60,55 @@ import { applicationDefault, cert } from "firebase-admin/app";
 import path from "path";
 import { fileURLToPath } from "url";
 import fs from "fs";
+import crypto from "crypto";
+import { isDeepStrictEqual } from "util";
+import { diffDocuments, mergeData, updateData } from "./diff.js";
+import { EncodeOptions, decodeValue, encodeValue, isoToTimestamp, timestampToIso } from "./encoding.js";
+import { AuditLog, AuditOutcome, hashArguments } from "./audit.js";
+import { PromptDefinition, parsePromptDocument, renderPrompt, toMcpPrompt } from "./prompts.js";
+import { AccessDeniedError, Permission, accessDeniedReason, anyProjectGrants, applyProjectSettings, assertAccess, assertCollectionGroupAccess, loadPolicy } from "./policy.js";
+import { ProjectConfig, ProjectHealth, ServerConfig, describeCredentials, formatHealthReport, loadConfig } from "./config.js";
+import { loadHttpOptions, startHttpServer } from "./http.js";
+import { countDeletion, deleteRecursively, issueConfirmationToken, verifyConfirmationToken } from "./deletion.js";
+import { inferSchema, profileFields, renderSchema } from "./profile.js";
+import { SchemaRegistry, SchemaValidationError, ValidationFailure } from "./validation.js";
+import { InvalidArgumentError, describeFirestoreError, isFirestoreError, isInvalidArgumentError } from "./errors.js";
+import { OutputOptions, budgetBytes, documentsResponse, formatJson } from "./output.js";
+import { TransferFormat, exportCollection, importRecords, openRecordWriter, readRecords, resolveTransferFile, transferFormat } from "./transfer.js";
 
 // Get the directory name
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
-const keysDir = path.resolve(__dirname, "..", "keys");
+const rootDir = path.resolve(__dirname, "..");
 
-// Get Google projects from environment variable
-const googleProjects = process.env.GOOGLE_CLOUD_PROJECTS ? 
-    process.env.GOOGLE_CLOUD_PROJECTS.split(',').map(p => p.trim()) : 
-    ["google-project-id1"];
+// Load the configured projects, from a config file or the environment
+let config: ServerConfig;
+try {
+    config = loadConfig(rootDir);
+} catch (error) {
+    console.error(`Error: Failed to load configuration. Exiting.\n${(error as Error).message}`);
+    process.exit(1);
+}
 
 // Initialize a map to store Firebase apps for each project
 const firebaseApps: Record<string, admin.app.App> = {};
 const firestoreInstances: Record<string, FirebaseFirestore.Firestore> = {};
+// Firestore clients of each project by database ID, including its default database
+const databaseInstances: Record<string, Record<string, FirebaseFirestore.Firestore>> = {};
 
-// Helper function to handle Firestore timestamps properly
-function transformTimestamps(obj: any): any {
-    if (!obj) return obj;
-    
-    if (obj instanceof admin.firestore.Timestamp) {
-        return obj; // Keep as Timestamp object for proper handling
-    }
-    
-    // Check for timestamp-like objects (_seconds and _nanoseconds fields)
-    if (obj && typeof obj === 'object' && 
-        '_seconds' in obj && '_nanoseconds' in obj &&
-        typeof obj._seconds === 'number' && typeof obj._nanoseconds === 'number') {
-        return new admin.firestore.Timestamp(obj._seconds, obj._nanoseconds);
-    }
-    
-    if (Array.isArray(obj)) {
-        return obj.map(item => transformTimestamps(item));
-    }
-    
-    if (typeof obj === 'object') {
-        const result: Record<string, any> = {};
-        for (const key in obj) {
-            if (Object.prototype.hasOwnProperty.call(obj, key)) {
-                result[key] = transformTimestamps(obj[key]);
-            }
-        }
-        return result;
-    }
-    
-    return obj;
+// Tool results encode Firestore values as tagged JSON (see encoding.ts);
+// FIRESTORE_TIMESTAMP_FORMAT=iso writes timestamps as plain ISO-8601 strings instead
+const encodeOptions: EncodeOptions = {
+    timestamps: process.env.FIRESTORE_TIMESTAMP_FORMAT === "iso" ? "iso" : "tagged"
+};
+
+// FIRESTORE_COMPACT_OUTPUT=true drops the indentation of tool results;
+// FIRESTORE_MAX_RESPONSE_BYTES budgets the responses of tools that return documents (see output.ts)
+const compactOutput = process.env.FIRESTORE_COMPACT_OUTPUT === "true";
+const defaultMaxResponseBytes = Number(process.env.FIRESTORE_MAX_RESPONSE_BYTES) || undefined;
+
+// Helper function to encode Firestore values for tool results
+function encode(value: any): any {
+    return encodeValue(value, encodeOptions);
 }
 
 // Function to get Firestore for a specific project
@@ -79,38 +119,57 @@ function getFirestoreForProject(projectId: string): FirebaseFirestore.Firestore
     return firestoreInstances[projectId];
 }
 
-// Default project is the first one in the list
-const defaultProject = googleProjects[0];
+// Default project is the configured default, or the first configured project
+const defaultProject = config.defaultProject;
 
-// Initialize Firebase Admin SDK for each project
-for (const projectId of googleProjects) {
-    try {
-        // Construct key path based on project ID
-        const keyPath = process.env.GOOGLE_APPLICATION_CREDENTIALS || 
-                        path.resolve(keysDir, `${projectId}.json`);
-        
-        if (!fs.existsSync(keyPath)) {
-            console.error(`Warning: No credentials file found for project ${projectId} at ${keyPath}`);
-            continue;
+// Initialize a Firebase app for a configured project, named after the project's alias,
+// and a Firestore client for each of its databases
+function initializeProject(project: ProjectConfig): Record<string, FirebaseFirestore.Firestore> {
+    const { credentials } = project;
+    
+    let options: admin.AppOptions;
+    if (credentials.type === "emulator") {
+        // Emulated projects need no credentials, only a project ID
+        options = { projectId: project.projectId };
+    } else if (credentials.type === "applicationDefault") {
+        options = { credential: applicationDefault(), projectId: project.projectId };
+    } else {
+        if (!fs.existsSync(credentials.path!)) {
+            throw new Error(`No credentials file found at ${credentials.path}`);
         }
+        const serviceAccount = JSON.parse(fs.readFileSync(credentials.path!, 'utf8'));
+        options = { credential: cert(serviceAccount), projectId: project.projectId };
+    }
+    
+    const app = admin.initializeApp(options, project.name);
+    const databases: Record<string, FirebaseFirestore.Firestore> = {};
+    for (const databaseId of project.databases) {
+        const firestore = getFirestore(app, databaseId);
         
-        // Read and parse the service account key file
-        const serviceAccount = JSON.parse(fs.readFileSync(keyPath, 'utf8'));
-        
-        // Initialize Firebase app with a unique name (project ID)
-        const app = admin.initializeApp({
-            credential: cert(serviceAccount)
-        }, projectId);
-        
-        firebaseApps[projectId] = app;
-        firestoreInstances[projectId] = getFirestore(app);
-        
-        console.error(`Firebase Admin SDK initialized successfully for project: ${projectId}`);
-    } catch (error) {
-        console.error(`Error initializing Firebase Admin SDK for project ${projectId}:`, error);
+        // FIRESTORE_EMULATOR_HOST, when set, already points every client at the emulator
+        if (credentials.type === "emulator" && !process.env.FIRESTORE_EMULATOR_HOST) {
+            firestore.settings({ host: credentials.host, ssl: false });
+        }
+        databases[databaseId] = firestore;
     }
+    
+    firebaseApps[project.name] = app;
+    return databases;
 }
 
+// Initialize every configured project and report which are usable
+const projectHealth: ProjectHealth[] = config.projects.map(project => {
+    try {
+        databaseInstances[project.name] = initializeProject(project);
+        // The first database is the one tool calls use unless they name another
+        firestoreInstances[project.name] = databaseInstances[project.name][project.databases[0]];
+        return { project, status: "ready" };
+    } catch (error) {
+        return { project, status: "error", error: (error as Error).message };
+    }
+});
+console.error(formatHealthReport(config, projectHealth));
+
 // Check if at least one project was successfully initialized
 if (Object.keys(firestoreInstances).length === 0) {
     console.error("Error: Failed to initialize any Firebase projects. Exiting.");
@@ -120,630 +179,3201 @@ if (Object.keys(firestoreInstances).length === 0) {
 // Default Firestore instance (for backward compatibility)
 const db = firestoreInstances[defaultProject];
 
-// Create MCP server
-const server = new Server(
-    {
-        name: "firestore",
-        version: "1.0.0"
-    },
-    {
-        capabilities: {
-            tools: {
-                listChanged: false
-            },
-            resources: {
-                listChanged: false
-            },
-            prompts: {
-                list: true,
-                listChanged: false
-            }
+// Load the access policy (read-only mode, per-project permissions and collection rules)
+let policy: ReturnType<typeof loadPolicy>;
+try {
+    policy = loadPolicy();
+} catch (error) {
+    console.error("Error: Failed to load access policy. Exiting.", error);
+    process.exit(1);
+}
+
+// Per-project read-only flags and collection rules from the configuration
+for (const project of config.projects) {
+    if (project.readOnly || project.collections) {
+        applyProjectSettings(policy, project.name, project);
+    }
+}
+
+// Collection and project that hold the MCP prompts served by prompts/list and prompts/get
+const promptsCollection = process.env.FIRESTORE_PROMPTS_COLLECTION || "prompts";
+const promptsProject = process.env.FIRESTORE_PROMPTS_PROJECT || defaultProject;
+
+// Set up the audit log of tool invocations
+const auditLogSetting = process.env.FIRESTORE_AUDIT_LOG?.trim();
+const auditLogDisabled = auditLogSetting !== undefined && ['off', 'false', '0', ''].includes(auditLogSetting.toLowerCase());
+const auditProject = process.env.FIRESTORE_AUDIT_PROJECT || defaultProject;
+const auditLog = new AuditLog({
+    filePath: auditLogDisabled ? undefined : path.resolve(auditLogSetting || path.resolve(__dirname, "..", "logs", "audit.jsonl")),
+    maxBytes: Number(process.env.FIRESTORE_AUDIT_MAX_BYTES) || 10 * 1024 * 1024,
+    maxFiles: Number(process.env.FIRESTORE_AUDIT_MAX_FILES) || 5,
+    collection: process.env.FIRESTORE_AUDIT_COLLECTION && firestoreInstances[auditProject]
+        ? firestoreInstances[auditProject].collection(process.env.FIRESTORE_AUDIT_COLLECTION)
+        : undefined,
+});
+
+// Unknown projects fall back to the default Firestore instance, so they are subject to its policy
+function policyProject(projectId: string): string {
+    return firestoreInstances[projectId] ? projectId : defaultProject;
+}
+
+// The Firestore client a tool call uses: the project's default database, or one of its configured databases
+function projectFirestore(projectId: string, database?: string): FirebaseFirestore.Firestore | undefined {
+    return database ? databaseInstances[policyProject(projectId)]?.[database] : firestoreInstances[projectId] || db;
+}
+
+function projectNotFoundMessage(projectId: string, database?: string): string {
+    return database
+        ? `Database '${database}' of project '${projectId}' not found or not configured`
+        : `Project '${projectId}' not found or not initialized`;
+}
+
+// Schemas that document writes are validated against, per project and database
+const schemaRegistries: Record<string, SchemaRegistry> = {};
+
+function schemaRegistry(projectId: string, projectDb: FirebaseFirestore.Firestore): SchemaRegistry {
+    const name = policyProject(projectId);
+    const key = `${name}/${projectDb.databaseId}`;
+    if (!schemaRegistries[key]) {
+        const project = config.projects.find(candidate => candidate.name === name);
+        const schemasCollection = project?.schemasCollection || process.env.FIRESTORE_SCHEMAS_COLLECTION;
+        schemaRegistries[key] = new SchemaRegistry(project?.schemas || {}, schemasCollection ? projectDb.collection(schemasCollection) : undefined);
+    }
+    return schemaRegistries[key];
+}
+
+// Validate the documents writes would leave behind, keyed by path (null for deleted documents), and list those the schemas reject
+async function validationFailures(
+    registry: SchemaRegistry,
+    documents: Map<string, Record<string, any> | null>
+): Promise<ValidationFailure[]> {
+    const failures: ValidationFailure[] = [];
+    for (const [docPath, data] of documents) {
+        const errors = data ? await registry.validate(parentCollectionPath(docPath), data) : [];
+        if (errors.length > 0) {
+            failures.push({ path: docPath, errors });
+        }
+    }
+    return failures;
+}
+
+async function assertValidDocuments(registry: SchemaRegistry, documents: Map<string, Record<string, any> | null>): Promise<void> {
+    const failures = await validationFailures(registry, documents);
+    if (failures.length > 0) {
+        throw new SchemaValidationError(failures);
+    }
+}
+
+// Permission each tool requires; batchWrite and runTransaction also check delete per operation
+const TOOL_PERMISSIONS: Record<string, Permission> = {
+    getDocument: 'read',
+    createDocument: 'write',
+    updateDocument: 'write',
+    deleteDocument: 'delete',
+    queryDocuments: 'read',
+    aggregateDocuments: 'read',
+    vectorSearch: 'read',
+    batchWrite: 'write',
+    runTransaction: 'write',
+    listCollections: 'read',
+    listSubcollections: 'read',
+    describeCollection: 'read',
+    deleteRecursive: 'delete',
+    exportCollection: 'read',
+    importCollection: 'write',
+    listProjects: 'read',
+    listPrompts: 'read',
+    getAuditLog: 'read',
+};
+
+
+// Split a slash-separated Firestore path into its segments, ignoring leading/trailing slashes
+function pathSegments(firestorePath: string): string[] {
+    return firestorePath.replace(/^\/+|\/+$/g, "").split("/");
+}
+
+// Normalize a Firestore path by removing leading/trailing slashes
+function normalizePath(firestorePath: string): string {
+    return pathSegments(firestorePath).join("/");
+}
+
+// Collection paths have an odd number of segments (e.g. "users" or "users/uid/orders")
+const CollectionPathSchema = z.string().min(1).superRefine((value, ctx) => {
+    const segments = pathSegments(value);
+    if (segments.some(segment => segment.length === 0)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Path '${value}' contains an empty segment` });
+    } else if (segments.length % 2 !== 1) {
+        ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: `Collection path '${value}' must have an odd number of segments (e.g. 'users' or 'users/uid/orders')`
+        });
+    }
+});
+
+// Document paths have an even number of segments (e.g. "users/uid" or "users/uid/orders/orderId")
+const DocumentPathSchema = z.string().min(1).superRefine((value, ctx) => {
+    const segments = pathSegments(value);
+    if (segments.some(segment => segment.length === 0)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Path '${value}' contains an empty segment` });
+    } else if (segments.length % 2 !== 0) {
+        ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: `Document path '${value}' must have an even number of segments (e.g. 'users/uid' or 'users/uid/orders/orderId')`
+        });
+    }
+});
+
+const DocumentIdSchema = z.string().min(1).refine(value => !value.includes("/"), {
+    message: "Document ID must not contain '/' (use 'path' for nested documents)"
+});
+
+// The collection path a document path belongs to, e.g. "users/uid/orders" for "users/uid/orders/orderId"
+function parentCollectionPath(documentPath: string): string {
+    return pathSegments(documentPath).slice(0, -1).join("/");
+}
+
+// Resolve a document path from either a full path or a collection/id pair. Both may be given only if they
+// name the same document, so a write never lands on a document the caller did not mean.
+function resolveDocumentPath(collection?: string, id?: string, documentPath?: string): string | undefined {
+    if (documentPath) {
+        const resolved = normalizePath(documentPath);
+        if ((collection && normalizePath(collection) !== parentCollectionPath(resolved)) ||
+            (id && id !== pathSegments(resolved).pop())) {
+            const named = [collection ? `collection '${collection}'` : "", id ? `id '${id}'` : ""].filter(Boolean).join(" and ");
+            throw new InvalidArgumentError(`path '${resolved}' does not match ${named}; give either a path or a collection and id`);
+        }
+        return resolved;
+    }
+    if (collection && id) {
+        return `${normalizePath(collection)}/${id}`;
+    }
+    return undefined;
+}
+
+// Operators for which Firestore implicitly orders results by the filtered field
+const INEQUALITY_OPERATORS = new Set(['!=', '>', '<', '>=', '<=', 'not-in']);
+
+// Number of prompts returned per page by the prompts/list handler
+const PROMPTS_PAGE_SIZE = 100;
+
+// Opaque page tokens carry a fingerprint of the query they belong to,
+// the orderBy values of the last document in the page and its path
+interface PageToken {
+    query: string;
+    values: any[];
+    path: string;
+}
+
+function encodePageToken(token: PageToken): string {
+    return Buffer.from(JSON.stringify(token), "utf8").toString("base64url");
+}
+
+function decodePageToken(token: string, fingerprint: string): PageToken {
+    let decoded: PageToken;
+    try {
+        decoded = JSON.parse(Buffer.from(token, "base64url").toString("utf8"));
+    } catch {
+        throw new InvalidArgumentError("Invalid page token");
+    }
+    if (!decoded || typeof decoded.path !== "string" || !Array.isArray(decoded.values)) {
+        throw new InvalidArgumentError("Invalid page token");
+    }
+    if (decoded.query !== fingerprint) {
+        throw new InvalidArgumentError("Page token was issued for a different query");
+    }
+    return decoded;
+}
+
+// Stable hash of the query parameters a page token is tied to
+function queryFingerprint(parts: unknown): string {
+    return crypto.createHash("sha256").update(JSON.stringify(parts)).digest("hex").slice(0, 16);
+}
+
+type QueryOrdering = { field: string; direction: 'asc' | 'desc' };
+
+// Work out the full ordering Firestore applies to a query so that cursors can be rebuilt from it:
+// explicit orderBy clauses, or the inequality fields when there are none, always followed by the document ID
+function cursorOrdering(
+    filters: { field: string; operator: string }[] | undefined,
+    orderBy: QueryOrdering[] | undefined
+): { fields: QueryOrdering[]; documentIdDirection: 'asc' | 'desc' } {
+    let fields = (orderBy || []).filter(order => order.field !== "__name__");
+    
+    if (!orderBy || orderBy.length === 0) {
+        const inequalityFields = new Set(
+            (filters || []).filter(filter => INEQUALITY_OPERATORS.has(filter.operator)).map(filter => filter.field)
+        );
+        fields = [...inequalityFields].sort().map(field => ({ field, direction: 'asc' as const }));
+    }
+    
+    const explicitDocumentId = (orderBy || []).find(order => order.field === "__name__");
+    const documentIdDirection = explicitDocumentId?.direction || fields[fields.length - 1]?.direction || 'asc';
+    
+    return { fields, documentIdDirection };
+}
+
+// Build the next page token from the last document of a page
+function nextPageToken(
+    fingerprint: string,
+    ordering: QueryOrdering[],
+    lastDoc: FirebaseFirestore.QueryDocumentSnapshot
+): string {
+    return encodePageToken({
+        query: fingerprint,
+        values: ordering.map(order => encodeValue(lastDoc.get(order.field))),
+        path: lastDoc.ref.path
+    });
+}
+
+// Maximum number of writes Firestore accepts in a single batch or transaction
+const MAX_WRITES_PER_COMMIT = 500;
+
+// Thrown from inside a transaction to abort it when a caller-supplied precondition does not hold
+class PreconditionFailedError extends Error {
+    constructor(public readonly failures: Record<string, any>[]) {
+        super(`${failures.length} precondition(s) failed`);
+        this.name = "PreconditionFailedError";
+    }
+}
+
+// Thrown when a lastUpdateTime or exists precondition of a write does not hold, because the document
+// changed since the caller read it
+class WriteConflictError extends Error {
+    constructor(public readonly conflicts: Record<string, any>[]) {
+        super(`${conflicts.length} document(s) changed since they were read`);
+        this.name = "WriteConflictError";
+    }
+}
+
+// Make values JSON-comparable, e.g. Timestamps become tagged timestamp objects
+function comparableValue(value: any): any {
+    return encodeValue(value);
+}
+
+// Order two values of the same kind (numbers, strings or Timestamps), or return null if they are not comparable
+function compareOrdered(a: any, b: any): number | null {
+    if (a instanceof admin.firestore.Timestamp && b instanceof admin.firestore.Timestamp) {
+        return a.valueOf() < b.valueOf() ? -1 : a.valueOf() > b.valueOf() ? 1 : 0;
+    }
+    if ((typeof a === 'number' && typeof b === 'number') || (typeof a === 'string' && typeof b === 'string')) {
+        return a < b ? -1 : a > b ? 1 : 0;
+    }
+    return null;
+}
+
+// Evaluate a precondition operator against a field value read inside a transaction
+function evaluateCondition(actual: any, operator: string, expected: any): boolean {
+    const equals = (a: any, b: any) => isDeepStrictEqual(comparableValue(a), comparableValue(b));
+    
+    switch (operator) {
+        case '==': return equals(actual, expected);
+        case '!=': return !equals(actual, expected);
+        case 'in': return Array.isArray(expected) && expected.some(item => equals(actual, item));
+        case 'not-in': return Array.isArray(expected) && !expected.some(item => equals(actual, item));
+        case 'array-contains': return Array.isArray(actual) && actual.some(item => equals(item, expected));
+        case 'array-contains-any':
+            return Array.isArray(actual) && Array.isArray(expected) &&
+                actual.some(item => expected.some(candidate => equals(item, candidate)));
+        default: {
+            const order = compareOrdered(actual, expected);
+            if (order === null) return false;
+            if (operator === '<') return order < 0;
+            if (operator === '<=') return order <= 0;
+            if (operator === '>') return order > 0;
+            if (operator === '>=') return order >= 0;
+            return false;
         }
     }
-);
+}
 
 // Schema definitions
+
+// A document version as returned in updateTime: an ISO-8601 string or a tagged timestamp
+const UpdateTimeSchema = z.union([
+    z.string(),
+    z.object({ __type: z.literal('timestamp'), value: z.string() }),
+]).transform((value, ctx) => {
+    try {
+        return isoToTimestamp(typeof value === 'string' ? value : value.value);
+    } catch (error) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: (error as Error).message });
+        return z.NEVER;
+    }
+});
+
+// Optimistic concurrency checks on the document a tool writes
+const WritePreconditionFields = {
+    lastUpdateTime: UpdateTimeSchema.optional(),
+    exists: z.boolean().optional(),
+};
+
+interface WritePrecondition {
+    lastUpdateTime?: FirebaseFirestore.Timestamp;
+    exists?: boolean;
+}
+
+function hasWritePrecondition(precondition: WritePrecondition): boolean {
+    return precondition.lastUpdateTime !== undefined || precondition.exists !== undefined;
+}
+
+// Check a write precondition against the current document and describe the conflict, or return null if it holds
+function writeConflict(snapshot: FirebaseFirestore.DocumentSnapshot, precondition: WritePrecondition): Record<string, any> | null {
+    const actualUpdateTime = snapshot.updateTime ? timestampToIso(snapshot.updateTime) : null;
+    
+    if (precondition.exists === true && !snapshot.exists) {
+        return { path: snapshot.ref.path, reason: "Document does not exist" };
+    }
+    if (precondition.exists === false && snapshot.exists) {
+        return { path: snapshot.ref.path, reason: "Document already exists", actualUpdateTime };
+    }
+    if (precondition.lastUpdateTime && !snapshot.updateTime?.isEqual(precondition.lastUpdateTime)) {
+        return {
+            path: snapshot.ref.path,
+            reason: snapshot.exists ? "Document was modified after lastUpdateTime" : "Document does not exist",
+            expectedUpdateTime: timestampToIso(precondition.lastUpdateTime),
+            actualUpdateTime
+        };
+    }
+    return null;
+}
+
+// Apply a single-document write. With preconditions, the document is read and checked in a transaction,
+// so it cannot change between the check and the write.
+async function writeDocument(
+    docRef: FirebaseFirestore.DocumentReference,
+    precondition: WritePrecondition,
+    write: (writer: DocumentWriter) => void
+): Promise<void> {
+    if (!hasWritePrecondition(precondition)) {
+        const batch = docRef.firestore.batch();
+        write(batch);
+        await batch.commit();
+        return;
+    }
+    
+    await docRef.firestore.runTransaction(async (transaction) => {
+        const conflict = writeConflict(await transaction.get(docRef), precondition);
+        if (conflict) {
+            throw new WriteConflictError([conflict]);
+        }
+        write(transaction);
+    });
+}
+
+// A document as returned by the tools: its ID, the version times that lastUpdateTime compares against and its
+// tagged data. The data has its own key, so stored fields such as "id" or "updateTime" never mix with the metadata.
+function documentResult(snapshot: FirebaseFirestore.DocumentSnapshot, extra: Record<string, any> = {}): Record<string, any> {
+    return {
+        id: snapshot.id,
+        ...extra,
+        createTime: snapshot.createTime ? timestampToIso(snapshot.createTime) : null,
+        updateTime: snapshot.updateTime ? timestampToIso(snapshot.updateTime) : null,
+        data: encode(snapshot.data())
+    };
+}
+
 const CollectionDocumentSchema = z.object({
-    collection: z.string().min(1),
-    id: z.string().min(1).optional(),
+    collection: CollectionPathSchema.optional(),
+    id: DocumentIdSchema.optional(),
+    path: DocumentPathSchema.optional(),
     project: z.string().min(1).optional(),
+    database: z.string().min(1).optional(),
+});
+
+// Field projection and response size controls of the tools that return documents
+const OutputFields = {
+    select: z.array(z.string().min(1)).optional(),
+    maxBytes: z.number().int().positive().optional(),
+    maxTokens: z.number().int().positive().optional(),
+    compact: z.boolean().optional(),
+};
+
+function outputOptions(options: { maxBytes?: number; maxTokens?: number; compact?: boolean }): OutputOptions {
+    return {
+        compact: options.compact ?? compactOutput,
+        maxBytes: budgetBytes(options.maxBytes, options.maxTokens) ?? defaultMaxResponseBytes
+    };
+}
+
+const GetDocumentSchema = CollectionDocumentSchema.extend(OutputFields);
+
+const DeleteDocumentSchema = CollectionDocumentSchema.extend({
+    ...WritePreconditionFields,
+    dryRun: z.boolean().default(false),
 });
 
 const CreateDocumentSchema = z.object({
-    collection: z.string().min(1),
+    collection: CollectionPathSchema.optional(),
     data: z.record(z.any()),
-    id: z.string().min(1).optional(),
+    id: DocumentIdSchema.optional(),
+    path: DocumentPathSchema.optional(),
+    ...WritePreconditionFields,
+    dryRun: z.boolean().default(false),
     project: z.string().min(1).optional(),
+    database: z.string().min(1).optional(),
 });
 
+// How an update writes its data: merge-set, overwrite with set, or update() with dotted field paths
+const UpdateModeSchema = z.enum(['merge', 'overwrite', 'update']);
+
+type UpdateMode = z.infer<typeof UpdateModeSchema>;
+
+// The legacy merge flag picks between merge and overwrite when no mode is given
+function updateMode(options: { mode?: UpdateMode; merge: boolean }): UpdateMode {
+    return options.mode ?? (options.merge ? 'merge' : 'overwrite');
+}
+
 const UpdateDocumentSchema = z.object({
-    collection: z.string().min(1),
-    id: z.string().min(1),
+    collection: CollectionPathSchema.optional(),
+    id: DocumentIdSchema.optional(),
+    path: DocumentPathSchema.optional(),
     data: z.record(z.any()),
     merge: z.boolean().default(true),
+    mode: UpdateModeSchema.optional(),
+    ...WritePreconditionFields,
+    dryRun: z.boolean().default(false),
     project: z.string().min(1).optional(),
+    database: z.string().min(1).optional(),
 });
 
+const QueryFilterSchema = z.object({
+    field: z.string().min(1),
+    operator: z.enum(['==', '!=', '>', '<', '>=', '<=', 'array-contains', 'array-contains-any', 'in', 'not-in']),
+    value: z.any()
+});
+
+type QueryFilter = z.infer<typeof QueryFilterSchema>;
+
+// A composite filter tree: { and: [...] } and { or: [...] } nodes with leaf conditions
+type FilterNode = { and: FilterNode[] } | { or: FilterNode[] } | QueryFilter;
+
+const FILTER_OPERATORS: readonly string[] = QueryFilterSchema.shape.operator.options;
+
+// Operators whose value must be a list
+const LIST_OPERATORS = new Set(['in', 'not-in', 'array-contains-any']);
+
+// Walk a filter tree and report every invalid node, with the path of the node as the issue path
+// (e.g. ["or", 1, "and", 0]) so errors read "where.or.1.and.0: ..."
+function filterTreeIssues(node: unknown, nodePath: (string | number)[] = []): { path: (string | number)[]; message: string }[] {
+    if (!node || typeof node !== 'object' || Array.isArray(node)) {
+        return [{
+            path: nodePath,
+            message: "Filter node must be an object with 'and', 'or', or a leaf condition with 'field', 'operator' and 'value'"
+        }];
+    }
+    
+    const keys = Object.keys(node);
+    const record = node as Record<string, unknown>;
+    
+    for (const composite of ['and', 'or']) {
+        if (!(composite in record)) continue;
+        
+        if (keys.length !== 1) {
+            const otherKeys = keys.filter(key => key !== composite).map(key => `'${key}'`).join(", ");
+            return [{ path: nodePath, message: `'${composite}' node must not have other keys (found ${otherKeys})` }];
+        }
+        const children = record[composite];
+        if (!Array.isArray(children) || children.length === 0) {
+            return [{ path: nodePath, message: `'${composite}' node must be a non-empty array of filter nodes` }];
+        }
+        return children.flatMap((child, index) => filterTreeIssues(child, [...nodePath, composite, index]));
+    }
+    
+    const issues: { path: (string | number)[]; message: string }[] = [];
+    if (typeof record.field !== 'string' || record.field.length === 0) {
+        issues.push({ path: nodePath, message: "Leaf condition requires a non-empty 'field'" });
+    }
+    if (typeof record.operator !== 'string' || !FILTER_OPERATORS.includes(record.operator)) {
+        issues.push({
+            path: nodePath,
+            message: `Leaf condition operator ${JSON.stringify(record.operator)} is not one of ${FILTER_OPERATORS.join(", ")}`
+        });
+    } else if (LIST_OPERATORS.has(record.operator) && !Array.isArray(record.value)) {
+        issues.push({ path: nodePath, message: `Leaf condition operator '${record.operator}' requires an array value` });
+    }
+    if (!('value' in record)) {
+        issues.push({ path: nodePath, message: "Leaf condition requires a 'value'" });
+    }
+    const unknownKeys = keys.filter(key => !['field', 'operator', 'value'].includes(key));
+    if (unknownKeys.length > 0) {
+        issues.push({
+            path: nodePath,
+            message: `Leaf condition has unexpected keys ${unknownKeys.map(key => `'${key}'`).join(", ")}`
+        });
+    }
+    return issues;
+}
+
+const FilterTreeSchema = z.any().superRefine((node, ctx) => {
+    for (const issue of filterTreeIssues(node)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: issue.path, message: issue.message });
+    }
+}).transform(node => node as FilterNode);
+
+// Collect the leaf conditions of a filter tree
+function filterLeaves(node: FilterNode | undefined): QueryFilter[] {
+    if (!node) return [];
+    if ('and' in node) return node.and.flatMap(filterLeaves);
+    if ('or' in node) return node.or.flatMap(filterLeaves);
+    return [node];
+}
+
+// Map a filter tree onto Filter.and / Filter.or / Filter.where
+function buildFilter(node: FilterNode, firestore: FirebaseFirestore.Firestore): FirebaseFirestore.Filter {
+    if ('and' in node) {
+        return admin.firestore.Filter.and(...node.and.map(child => buildFilter(child, firestore)));
+    }
+    if ('or' in node) {
+        return admin.firestore.Filter.or(...node.or.map(child => buildFilter(child, firestore)));
+    }
+    // Decode tagged filter values (timestamps, references, ...) into Firestore values
+    return admin.firestore.Filter.where(node.field, node.operator, decodeValue(node.value, firestore));
+}
+
+// In collection group mode the collection is a collection ID, matched at any depth
+const collectionGroupRefinement = (
+    value: { collection: string; collectionGroup?: boolean },
+    ctx: z.RefinementCtx
+) => {
+    if (value.collectionGroup && pathSegments(value.collection).length !== 1) {
+        ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ["collection"],
+            message: "With collectionGroup, collection must be a collection ID without slashes (e.g. 'comments')"
+        });
+    }
+};
+
+// Base query for a collection path, or for every collection with the given ID when collectionGroup is set
+function collectionQuery(
+    projectDb: FirebaseFirestore.Firestore,
+    collection: string,
+    collectionGroup?: boolean
+): FirebaseFirestore.Query<FirebaseFirestore.DocumentData> {
+    return collectionGroup
+        ? projectDb.collectionGroup(normalizePath(collection))
+        : projectDb.collection(normalizePath(collection));
+}
+
+// Page size of queryDocuments when no limit is given, so every response is bounded
+const QUERY_PAGE_SIZE = 100;
+
 const QueryDocumentsSchema = z.object({
-    collection: z.string().min(1),
-    filters: z.array(
-        z.object({
-            field: z.string().min(1),
-            operator: z.enum(['==', '!=', '>', '<', '>=', '<=', 'array-contains', 'array-contains-any', 'in', 'not-in']),
-            value: z.any()
-        })
-    ).optional(),
+    collection: CollectionPathSchema,
+    collectionGroup: z.boolean().default(false),
+    filters: z.array(QueryFilterSchema).optional(),
+    where: FilterTreeSchema.optional(),
     orderBy: z.array(
         z.object({
             field: z.string().min(1),
             direction: z.enum(['asc', 'desc']).default('asc')
         })
     ).optional(),
-    limit: z.number().positive().optional(),
+    limit: z.number().int().positive().default(QUERY_PAGE_SIZE),
+    offset: z.number().int().nonnegative().optional(),
+    startAt: z.array(z.any()).optional(),
+    startAfter: z.array(z.any()).optional(),
+    endBefore: z.array(z.any()).optional(),
+    pageToken: z.string().min(1).optional(),
+    ...OutputFields,
     project: z.string().min(1).optional(),
-});
+    database: z.string().min(1).optional(),
+}).superRefine(collectionGroupRefinement);
+
+// Firestore accepts at most 5 aggregations per query
+const AggregateDocumentsSchema = z.object({
+    collection: CollectionPathSchema,
+    collectionGroup: z.boolean().default(false),
+    filters: z.array(QueryFilterSchema).optional(),
+    where: FilterTreeSchema.optional(),
+    aggregations: z.array(
+        z.object({
+            alias: z.string().regex(/^[A-Za-z_][A-Za-z0-9_]*$/, "Alias must be a valid identifier"),
+            type: z.enum(['count', 'sum', 'average']),
+            field: z.string().min(1).optional()
+        }).refine(aggregation => aggregation.type === 'count' || !!aggregation.field, {
+            message: "sum and average aggregations require a field",
+            path: ["field"]
+        })
+    ).min(1).max(5).refine(aggregations => new Set(aggregations.map(a => a.alias)).size === aggregations.length, {
+        message: "Aggregation aliases must be unique"
+    }),
+    project: z.string().min(1).optional(),
+    database: z.string().min(1).optional(),
+}).superRefine(collectionGroupRefinement);
+
+// Firestore returns at most 1000 nearest neighbors per query
+const VectorSearchSchema = z.object({
+    collection: CollectionPathSchema,
+    collectionGroup: z.boolean().default(false),
+    filters: z.array(QueryFilterSchema).optional(),
+    where: FilterTreeSchema.optional(),
+    vectorField: z.string().min(1),
+    queryVector: z.array(z.number().finite()).min(1),
+    distanceMeasure: z.preprocess(
+        value => typeof value === 'string' ? value.toUpperCase().replace(/[\s-]/g, '_') : value,
+        z.enum(['COSINE', 'EUCLIDEAN', 'DOT_PRODUCT'])
+    ).default('COSINE'),
+    limit: z.number().int().positive().max(1000).default(10),
+    distanceThreshold: z.number().finite().optional(),
+    distanceResultField: z.string().min(1).optional(),
+    ...OutputFields,
+    project: z.string().min(1).optional(),
+    database: z.string().min(1).optional(),
+}).superRefine(collectionGroupRefinement);
 
 const ListCollectionsSchema = z.object({
     project: z.string().min(1).optional(),
+    database: z.string().min(1).optional(),
+});
+
+// Upper limit on the documents one describeCollection call samples
+const DESCRIBE_MAX_DOCUMENTS = Number(process.env.FIRESTORE_DESCRIBE_MAX_DOCUMENTS) || 1000;
+
+// Subcollections of sampled documents are listed this many documents at a time
+const DESCRIBE_LIST_CONCURRENCY = 20;
+
+const DescribeCollectionSchema = z.object({
+    collection: CollectionPathSchema,
+    sampleSize: z.number().int().positive().max(DESCRIBE_MAX_DOCUMENTS).default(100),
+    all: z.boolean().default(false),
+    schemaFormat: z.enum(['jsonSchema', 'zod', 'typescript']).optional(),
+    project: z.string().min(1).optional(),
+    database: z.string().min(1).optional(),
 });
 
 const ListPromptsSchema = z.object({
-    collection: z.string().min(1).default("prompts"),
+    collection: CollectionPathSchema.optional(),
     project: z.string().min(1).optional(),
-    limit: z.number().positive().optional(),
+    database: z.string().min(1).optional(),
+    limit: z.number().int().positive().max(1000).optional(),
+    pageToken: z.string().min(1).optional(),
 });
 
-const EmptySchema = z.object({});
+// Resolve a target's document path in a schema refinement. A path that disagrees with the collection or ID is
+// reported as an issue of the target, so the error names the operation it belongs to; null marks that case
+function refineDocumentPath(
+    target: { collection?: string; id?: string; path?: string },
+    ctx: z.RefinementCtx
+): string | undefined | null {
+    try {
+        return resolveDocumentPath(target.collection, target.id, target.path);
+    } catch (error) {
+        if (!(error instanceof InvalidArgumentError)) {
+            throw error;
+        }
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["path"], message: error.message });
+        return null;
+    }
+}
 
-// Register resources/list handler
-server.setRequestHandler(ListResourcesRequestSchema, async (request) => {
-    // Here we could return actual resources if needed
-    // For now, we'll return an empty list since this MCP primarily uses tools
-    return {
-        resources: [],
-        cursor: null
-    };
+// A single create/update/delete operation used by batchWrite and runTransaction
+const WriteOperationSchema = z.object({
+    type: z.enum(['create', 'update', 'delete']),
+    collection: CollectionPathSchema.optional(),
+    id: DocumentIdSchema.optional(),
+    path: DocumentPathSchema.optional(),
+    data: z.record(z.any()).optional(),
+    merge: z.boolean().default(true),
+    mode: UpdateModeSchema.optional(),
+    ...WritePreconditionFields,
+}).superRefine((operation, ctx) => {
+    const docPath = refineDocumentPath(operation, ctx);
+    if (operation.type === 'create' && docPath === undefined && !operation.collection) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: "create requires a document path or a collection" });
+    }
+    if (operation.type !== 'create' && docPath === undefined) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `${operation.type} requires a document path or a collection and document ID` });
+    }
+    if (operation.type !== 'delete' && !operation.data) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["data"], message: `${operation.type} requires data` });
+    }
+    if (operation.type === 'create' && hasWritePrecondition(operation)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: "create already requires the document to be missing and takes no lastUpdateTime or exists" });
+    }
 });
 
-// Register custom prompts/list handler
-server.setRequestHandler(
-    z.object({
-        method: z.literal("prompts/list"),
-        params: z.object({}).optional()
-    }),
-    async (request) => {
-        // Use the same logic as the listPrompts tool
-        try {
-            const collection = "prompts";
-            const projectId = defaultProject;
-            const projectDb = firestoreInstances[projectId] || db;
-            
-            if (!projectDb) {
-                return {
-                    prompts: []
-                };
-            }
-            
-            let query = projectDb.collection(collection);
-            const querySnapshot = await query.get();
-            
-            if (querySnapshot.empty) {
-                return {
-                    prompts: []
-                };
-            }
-            
-            // Format the documents as proper prompt objects
-            const prompts = querySnapshot.docs.map(doc => {
-                // Transform data to handle timestamp conversion properly
-                const rawData = doc.data();
-                const data = transformTimestamps(rawData);
-                
-                return {
-                    id: doc.id,
-                    name: data.name || doc.id,
-                    description: data.description || "",
-                    text: data.text || data.content || "",
-                    // Add any other fields that the client expects
-                    metadata: {
-                        createdAt: data.createdAt || null,
-                        updatedAt: data.updatedAt || null,
-                        tags: data.tags || [],
-                        ...(data.metadata || {})
-                    }
-                };
-            });
-            
-            return {
-                prompts
-            };
-        } catch (error) {
-            console.error("Error in prompts/list handler:", error);
-            return {
-                prompts: []
-            };
-        }
+type WriteOperation = z.infer<typeof WriteOperationSchema>;
+
+const BatchWriteSchema = z.object({
+    operations: z.array(WriteOperationSchema).min(1).max(MAX_WRITES_PER_COMMIT),
+    dryRun: z.boolean().default(false),
+    project: z.string().min(1).optional(),
+    database: z.string().min(1).optional(),
+});
+
+const DocumentTargetSchema = z.object({
+    collection: CollectionPathSchema.optional(),
+    id: DocumentIdSchema.optional(),
+    path: DocumentPathSchema.optional(),
+}).superRefine((target, ctx) => {
+    if (refineDocumentPath(target, ctx) === undefined) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Either a document path or a collection and document ID is required" });
     }
-);
+});
 
-// Register list tools handler
-server.setRequestHandler(ListToolsRequestSchema, async () => {
-    return {
-        tools: [
+const PreconditionSchema = z.object({
+    collection: CollectionPathSchema.optional(),
+    id: DocumentIdSchema.optional(),
+    path: DocumentPathSchema.optional(),
+    field: z.string().min(1).optional(),
+    operator: z.enum(['exists', 'missing', '==', '!=', '>', '<', '>=', '<=', 'array-contains', 'array-contains-any', 'in', 'not-in']),
+    value: z.any(),
+}).superRefine((precondition, ctx) => {
+    if (refineDocumentPath(precondition, ctx) === undefined) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Either a document path or a collection and document ID is required" });
+    }
+    if (!precondition.field && precondition.operator !== 'exists' && precondition.operator !== 'missing') {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["field"], message: `Operator '${precondition.operator}' requires a field` });
+    }
+});
+
+const RunTransactionSchema = z.object({
+    reads: z.array(DocumentTargetSchema).optional(),
+    preconditions: z.array(PreconditionSchema).optional(),
+    operations: z.array(WriteOperationSchema).min(1).max(MAX_WRITES_PER_COMMIT),
+    dryRun: z.boolean().default(false),
+    project: z.string().min(1).optional(),
+    database: z.string().min(1).optional(),
+});
+
+// Apply a list of filter conditions and an optional filter tree to a query (all combined with an implicit AND)
+function applyFilters(
+    query: FirebaseFirestore.Query<FirebaseFirestore.DocumentData>,
+    filters: QueryFilter[] | undefined,
+    where?: FilterNode
+): FirebaseFirestore.Query<FirebaseFirestore.DocumentData> {
+    for (const filter of filters || []) {
+        // Decode tagged filter values (timestamps, references, ...) into Firestore values
+        query = query.where(filter.field, filter.operator, decodeValue(filter.value, query.firestore));
+    }
+    if (where) {
+        query = query.where(buildFilter(where, query.firestore));
+    }
+    return query;
+}
+
+// Resolve the document reference a write operation targets, generating an ID for creates without one
+function writeOperationRef(
+    projectDb: FirebaseFirestore.Firestore,
+    operation: WriteOperation
+): FirebaseFirestore.DocumentReference {
+    const docPath = resolveDocumentPath(operation.collection, operation.id, operation.path);
+    return docPath ? projectDb.doc(docPath) : projectDb.collection(normalizePath(operation.collection!)).doc();
+}
+
+// Check preconditions against documents read in a transaction (or a dry run) and describe each that does not hold
+function preconditionFailures(
+    preconditions: z.infer<typeof PreconditionSchema>[] | undefined,
+    snapshotsByPath: Map<string, FirebaseFirestore.DocumentSnapshot>
+): Record<string, any>[] {
+    const failures: Record<string, any>[] = [];
+    
+    for (const condition of preconditions || []) {
+        const conditionPath = resolveDocumentPath(condition.collection, condition.id, condition.path)!;
+        const snapshot = snapshotsByPath.get(conditionPath)!;
+        const value = condition.field ? snapshot.get(condition.field) : undefined;
+        
+        let holds: boolean;
+        if (condition.operator === 'exists') {
+            holds = condition.field ? snapshot.exists && value !== undefined : snapshot.exists;
+        } else if (condition.operator === 'missing') {
+            holds = condition.field ? !snapshot.exists || value === undefined : !snapshot.exists;
+        } else {
+            holds = snapshot.exists && evaluateCondition(value, condition.operator, decodeValue(condition.value, snapshot.ref.firestore));
+        }
+        
+        if (!holds) {
+            failures.push({
+                path: conditionPath,
+                field: condition.field,
+                operator: condition.operator,
+                expected: condition.value,
+                actual: snapshot.exists ? encode(value) : "document does not exist"
+            });
+        }
+    }
+    
+    return failures;
+}
+
+// Apply write operations in order to the given documents (documents not given are taken to be missing),
+// returning what each operation finds and leaves behind, and the final state of every document
+function simulateWriteOperations(
+    operations: WriteOperation[],
+    docRefs: FirebaseFirestore.DocumentReference[],
+    snapshotsByPath: Map<string, FirebaseFirestore.DocumentSnapshot>
+): { steps: { before: Record<string, any> | null; after: Record<string, any> | null; error?: string }[]; documents: Map<string, Record<string, any> | null> } {
+    const state = new Map<string, Record<string, any> | null>();
+    for (const [docPath, snapshot] of snapshotsByPath) {
+        state.set(docPath, snapshot.exists ? snapshot.data()! : null);
+    }
+    const documents = new Map<string, Record<string, any> | null>();
+    
+    const steps = operations.map((operation, index) => {
+        const docRef = docRefs[index];
+        const before = state.get(docRef.path) ?? null;
+        const data = decodeValue(operation.data, docRef.firestore, { transforms: true });
+        
+        let after: Record<string, any> | null;
+        if (operation.type === 'create') {
+            if (before) {
+                return { before, after: before, error: "Document already exists" };
+            }
+            after = mergeData(null, data);
+        } else if (operation.type === 'update') {
+            if (!before) {
+                return { before, after: before, error: "Document not found" };
+            }
+            after = updatedDocument(before, data, updateMode(operation));
+        } else {
+            after = null;
+        }
+        
+        state.set(docRef.path, after);
+        documents.set(docRef.path, after);
+        return { before, after };
+    });
+    
+    return { steps, documents };
+}
+
+// Simulate write operations in order against the current documents and describe what each would change,
+// without writing anything
+async function previewWriteOperations(
+    operations: WriteOperation[],
+    docRefs: FirebaseFirestore.DocumentReference[],
+    snapshotsByPath: Map<string, FirebaseFirestore.DocumentSnapshot>,
+    registry: SchemaRegistry
+): Promise<Record<string, any>[]> {
+    const { steps, documents } = simulateWriteOperations(operations, docRefs, snapshotsByPath);
+    
+    // Schemas apply to the documents as the whole batch leaves them
+    const validationErrors = new Map((await validationFailures(registry, documents)).map(failure => [failure.path, failure.errors]));
+    
+    return operations.map((operation, index) => {
+        const docRef = docRefs[index];
+        const { before, after, error } = steps[index];
+        const preview = { type: operation.type, id: docRef.id, path: docRef.path, exists: before !== null };
+        
+        const conflict = hasWritePrecondition(operation) ? writeConflict(snapshotsByPath.get(docRef.path)!, operation) : null;
+        if (conflict) {
+            return { ...preview, error: "Conflict", conflict };
+        }
+        if (error) {
+            return { ...preview, error };
+        }
+        
+        const errors = validationErrors.get(docRef.path);
+        return {
+            ...preview,
+            ...(errors ? { error: "Validation failed", validationErrors: errors } : {}),
+            diff: encode(diffDocuments(before, after))
+        };
+    });
+}
+
+// The document an update would leave behind
+function updatedDocument(before: Record<string, any>, data: Record<string, any>, mode: UpdateMode): Record<string, any> {
+    if (mode === 'update') {
+        return updateData(before, data);
+    }
+    return mergeData(mode === 'merge' ? before : null, data);
+}
+
+// The write methods shared by WriteBatch and Transaction
+interface DocumentWriter {
+    create(docRef: FirebaseFirestore.DocumentReference, data: FirebaseFirestore.DocumentData): unknown;
+    set(docRef: FirebaseFirestore.DocumentReference, data: FirebaseFirestore.DocumentData, options: FirebaseFirestore.SetOptions): unknown;
+    update(docRef: FirebaseFirestore.DocumentReference, data: FirebaseFirestore.UpdateData<FirebaseFirestore.DocumentData>): unknown;
+    delete(docRef: FirebaseFirestore.DocumentReference): unknown;
+}
+
+// The collection path a write operation targets
+function writeOperationCollectionPath(operation: WriteOperation): string {
+    const docPath = resolveDocumentPath(operation.collection, operation.id, operation.path);
+    return docPath ? parentCollectionPath(docPath) : normalizePath(operation.collection!);
+}
+
+// Queue a write operation on a WriteBatch or Transaction
+function applyWriteOperation(
+    writer: DocumentWriter,
+    docRef: FirebaseFirestore.DocumentReference,
+    operation: WriteOperation
+): void {
+    // Decode tagged input values (timestamps, references, field transforms, ...) into Firestore values
+    const data = decodeValue(operation.data, docRef.firestore, { transforms: true });
+    
+    if (operation.type === 'create') {
+        writer.create(docRef, data);
+    } else if (operation.type === 'update' && updateMode(operation) === 'update') {
+        writer.update(docRef, data);
+    } else if (operation.type === 'update') {
+        writer.set(docRef, data, { merge: updateMode(operation) === 'merge' });
+    } else {
+        writer.delete(docRef);
+    }
+}
+
+// Upper limit on the documents one deleteRecursive call may delete; calls may set a lower maxDocuments
+const RECURSIVE_DELETE_MAX_DOCUMENTS = Number(process.env.FIRESTORE_DELETE_MAX_DOCUMENTS) || 1000;
+
+const DeleteRecursiveSchema = z.object({
+    collection: CollectionPathSchema.optional(),
+    id: DocumentIdSchema.optional(),
+    path: DocumentPathSchema.optional(),
+    confirmationToken: z.string().min(1).optional(),
+    maxDocuments: z.number().int().positive().max(RECURSIVE_DELETE_MAX_DOCUMENTS).default(RECURSIVE_DELETE_MAX_DOCUMENTS),
+    project: z.string().min(1).optional(),
+    database: z.string().min(1).optional(),
+});
+
+// Files of exportCollection and importCollection are kept in this directory
+const transferDir = path.resolve(process.env.FIRESTORE_EXPORT_DIR || path.resolve(rootDir, "exports"));
+
+const TransferFormatSchema = z.enum(['ndjson', 'json', 'csv']);
+
+const ExportCollectionSchema = z.object({
+    collection: CollectionPathSchema,
+    file: z.string().min(1),
+    format: TransferFormatSchema.optional(),
+    includeSubcollections: z.boolean().default(false),
+    limit: z.number().int().positive().optional(),
+    project: z.string().min(1).optional(),
+    database: z.string().min(1).optional(),
+});
+
+const ImportCollectionSchema = z.object({
+    collection: CollectionPathSchema,
+    file: z.string().min(1),
+    format: TransferFormatSchema.optional(),
+    onConflict: z.enum(['skip', 'overwrite', 'merge']).default('skip'),
+    dryRun: z.boolean().default(false),
+    project: z.string().min(1).optional(),
+    database: z.string().min(1).optional(),
+});
+
+const GetAuditLogSchema = z.object({
+    tool: z.string().min(1).optional(),
+    project: z.string().min(1).optional(),
+    outcome: z.enum(['success', 'error', 'denied', 'invalid', 'conflict']).optional(),
+    path: z.string().min(1).optional(),
+    since: z.string().datetime({ offset: true }).optional(),
+    limit: z.number().int().positive().max(1000).default(50),
+});
+
+const EmptySchema = z.object({});
+
+// Document and collection paths named in tool arguments, for the audit log
+function auditPaths(args: Record<string, any> | undefined): string[] {
+    const paths = new Set<string>();
+    const addTarget = (target: Record<string, any> | undefined) => {
+        if (!target || typeof target !== 'object') return;
+        const pathArg = typeof target.path === 'string' ? target.path : undefined;
+        const collectionArg = typeof target.collection === 'string' ? target.collection : undefined;
+        const idArg = typeof target.id === 'string' ? target.id : undefined;
+        // The path wins here; the tool itself refuses a path that disagrees with collection and id
+        const docPath = pathArg ? normalizePath(pathArg) : resolveDocumentPath(collectionArg, idArg);
+        if (docPath) {
+            paths.add(docPath);
+        } else if (collectionArg) {
+            paths.add(normalizePath(collectionArg));
+        }
+    };
+    
+    addTarget(args);
+    for (const key of ['operations', 'reads', 'preconditions']) {
+        if (Array.isArray(args?.[key])) {
+            args![key].forEach(addTarget);
+        }
+    }
+    return [...paths];
+}
+
+// The result of a tool call, as sent to the client
+interface ToolResult {
+    [key: string]: unknown;
+    content: { type: string; text: string }[];
+    isError?: boolean;
+}
+
+// The audit outcome of each failed tool result, recorded where the failure is returned
+const failureOutcomes = new WeakMap<ToolResult, { outcome: AuditOutcome; error: string }>();
+
+// A failed tool call: an error body, flagged as an error for the client and recorded with its audit outcome
+function toolError(body: Record<string, any>, outcome: AuditOutcome = "error"): ToolResult {
+    const result: ToolResult = {
+        content: [{ type: "text", text: JSON.stringify(body, null, 2) }],
+        isError: true
+    };
+    const detail = body.message || body.details;
+    failureOutcomes.set(result, { outcome, error: detail ? `${body.error}: ${detail}` : body.error });
+    return result;
+}
+
+// Classify a tool result for the audit log; results not returned through toolError are successes
+function auditOutcome(result: ToolResult): { outcome: AuditOutcome; error?: string } {
+    return failureOutcomes.get(result) || { outcome: "success" };
+}
+
+// Resources are addressed as firestore://{project}/{path}, where an odd number of path segments
+// names a collection and an even number names a document
+const RESOURCE_SCHEME = "firestore:";
+
+// Number of documents returned when reading a collection resource, unless the URI sets pageSize
+const RESOURCE_PAGE_SIZE = 50;
+
+function resourceUri(projectId: string, firestorePath: string, params?: Record<string, string>): string {
+    const query = params ? `?${new URLSearchParams(params).toString()}` : "";
+    return `firestore://${projectId}/${pathSegments(firestorePath).map(encodeURIComponent).join("/")}${query}`;
+}
+
+// Parse a firestore:// URI into its project, path and paging parameters
+function parseResourceUri(uri: string): { projectId: string; firestorePath: string; pageSize: number; pageToken?: string } {
+    let url: URL;
+    try {
+        url = new URL(uri);
+    } catch {
+        throw new McpError(ErrorCode.InvalidParams, `Invalid resource URI: ${uri}`);
+    }
+    
+    const segments = url.pathname.split("/").filter(segment => segment.length > 0).map(decodeURIComponent);
+    if (url.protocol !== RESOURCE_SCHEME || !url.hostname || segments.length === 0) {
+        throw new McpError(ErrorCode.InvalidParams, `Resource URI must look like firestore://{project}/{path}: ${uri}`);
+    }
+    
+    const pageSize = Number(url.searchParams.get("pageSize") || RESOURCE_PAGE_SIZE);
+    if (!Number.isInteger(pageSize) || pageSize < 1) {
+        throw new McpError(ErrorCode.InvalidParams, `Invalid pageSize in resource URI: ${uri}`);
+    }
+    
+    return {
+        projectId: url.hostname,
+        firestorePath: segments.join("/"),
+        pageSize,
+        pageToken: url.searchParams.get("pageToken") || undefined
+    };
+}
+
+// resources/list handler: the root collections of every project the policy allows reading
+async function listResources() {
+    const resources = [];
+    
+    for (const [projectId, projectDb] of Object.entries(firestoreInstances)) {
+        if (accessDeniedReason(policy, projectId, 'read')) continue;
+        
+        try {
+            const collections = await projectDb.listCollections();
+            for (const collection of collections) {
+                if (accessDeniedReason(policy, projectId, 'read', collection.id)) continue;
+                
+                resources.push({
+                    uri: resourceUri(projectId, collection.id),
+                    name: `${projectId}/${collection.id}`,
+                    description: `Firestore collection '${collection.id}' in project ${projectId} (first page of documents)`,
+                    mimeType: "application/json"
+                });
+            }
+        } catch (error) {
+            console.error(`Error listing collections for resources in project ${projectId}:`, error);
+        }
+    }
+    
+    return {
+        resources
+    };
+}
+
+// resources/templates/list handler
+async function listResourceTemplates() {
+    return {
+        resourceTemplates: [
             {
-                name: "getDocument",
-                description: "Get a single document from Firestore",
-                inputSchema: {
-                    type: "object",
-                    properties: {
-                        collection: {
-                            type: "string",
-                            description: "The Firestore collection name"
+                uriTemplate: "firestore://{project}/{+documentPath}",
+                name: "Firestore document",
+                description: "A Firestore document by its full path (even number of segments, e.g. users/uid/orders/orderId)",
+                mimeType: "application/json"
+            },
+            {
+                uriTemplate: "firestore://{project}/{+collectionPath}{?pageSize,pageToken}",
+                name: "Firestore collection",
+                description: "A page of documents from a collection by its full path (odd number of segments, e.g. users/uid/orders)",
+                mimeType: "application/json"
+            }
+        ]
+    };
+}
+
+// resources/read handler: a document's JSON, or a page of a collection's documents
+async function readResource(request: ReadResourceRequest) {
+    const { uri } = request.params;
+    const { projectId, firestorePath, pageSize, pageToken } = parseResourceUri(uri);
+    
+    const projectDb = firestoreInstances[projectId];
+    if (!projectDb) {
+        throw new McpError(ErrorCode.InvalidParams, `Project '${projectId}' not found or not initialized`);
+    }
+    
+    const isDocument = pathSegments(firestorePath).length % 2 === 0;
+    const collectionPath = isDocument ? parentCollectionPath(firestorePath) : firestorePath;
+    const deniedReason = accessDeniedReason(policy, projectId, 'read', collectionPath);
+    if (deniedReason) {
+        throw new McpError(ErrorCode.InvalidRequest, `Permission denied: ${deniedReason}`);
+    }
+    
+    let body: Record<string, any>;
+    
+    if (isDocument) {
+        const doc = await projectDb.doc(firestorePath).get();
+        if (!doc.exists) {
+            throw new McpError(ErrorCode.InvalidParams, `Document not found: ${firestorePath}`);
+        }
+        body = documentResult(doc);
+    } else {
+        // Page through the collection in document ID order
+        const fingerprint = queryFingerprint({ projectId, collection: firestorePath });
+        let query = projectDb.collection(firestorePath)
+            .orderBy(admin.firestore.FieldPath.documentId())
+            .limit(pageSize);
+        
+        if (pageToken) {
+            try {
+                query = query.startAfter(projectDb.doc(decodePageToken(pageToken, fingerprint).path));
+            } catch (error) {
+                throw new McpError(ErrorCode.InvalidParams, (error as Error).message);
+            }
+        }
+        
+        const querySnapshot = await query.get();
+        const documents = querySnapshot.docs.map(doc => documentResult(doc));
+        const nextToken = querySnapshot.size === pageSize
+            ? nextPageToken(fingerprint, [], querySnapshot.docs[querySnapshot.docs.length - 1])
+            : null;
+        
+        body = {
+            documents,
+            nextPageToken: nextToken,
+            nextPageUri: nextToken ? resourceUri(projectId, firestorePath, { pageSize: String(pageSize), pageToken: nextToken }) : null
+        };
+    }
+    
+    return {
+        contents: [{
+            uri,
+            mimeType: "application/json",
+            text: formatJson(body, compactOutput)
+        }]
+    };
+}
+
+// Find a prompt by name: the document with that ID, or else the first document whose name field matches
+async function findPrompt(projectDb: FirebaseFirestore.Firestore, name: string): Promise<PromptDefinition | null> {
+    const collection = projectDb.collection(promptsCollection);
+    
+    if (!name.includes("/")) {
+        const doc = await collection.doc(name).get();
+        if (doc.exists) {
+            return parsePromptDocument(doc.id, encode(doc.data()));
+        }
+    }
+    
+    const querySnapshot = await collection.where("name", "==", name).limit(1).get();
+    if (querySnapshot.empty) {
+        return null;
+    }
+    return parsePromptDocument(querySnapshot.docs[0].id, encode(querySnapshot.docs[0].data()));
+}
+
+// prompts/list handler
+async function listPrompts(request: ListPromptsRequest) {
+    const projectDb = firestoreInstances[promptsProject];
+    
+    if (!projectDb || accessDeniedReason(policy, promptsProject, 'read', promptsCollection)) {
+        return {
+            prompts: []
+        };
+    }
+    
+    // Page through prompts in document ID order
+    const fingerprint = queryFingerprint({ projectId: promptsProject, collection: promptsCollection });
+    let query = projectDb.collection(promptsCollection)
+        .orderBy(admin.firestore.FieldPath.documentId())
+        .limit(PROMPTS_PAGE_SIZE);
+    
+    const cursor = request.params?.cursor;
+    if (cursor) {
+        try {
+            query = query.startAfter(projectDb.doc(decodePageToken(cursor, fingerprint).path));
+        } catch (error) {
+            throw new McpError(ErrorCode.InvalidParams, (error as Error).message);
+        }
+    }
+    
+    const querySnapshot = await query.get();
+    
+    // Format the documents as MCP prompts, skipping documents that are not valid prompts
+    const prompts = querySnapshot.docs
+        .map(doc => parsePromptDocument(doc.id, encode(doc.data())))
+        .filter((prompt): prompt is PromptDefinition => prompt !== null)
+        .map(toMcpPrompt);
+    
+    const lastDoc = querySnapshot.docs[querySnapshot.docs.length - 1];
+    
+    return {
+        prompts,
+        ...(querySnapshot.size === PROMPTS_PAGE_SIZE
+            ? { nextCursor: nextPageToken(fingerprint, [], lastDoc) }
+            : {})
+    };
+}
+
+// prompts/get handler: fill the prompt's {{placeholders}} from the supplied arguments
+async function getPrompt(request: GetPromptRequest) {
+    const { name, arguments: promptArgs } = request.params;
+    const projectDb = firestoreInstances[promptsProject];
+    
+    if (!projectDb) {
+        throw new McpError(ErrorCode.InternalError, `Prompts project '${promptsProject}' not found or not initialized`);
+    }
+    
+    const deniedReason = accessDeniedReason(policy, promptsProject, 'read', promptsCollection);
+    if (deniedReason) {
+        throw new McpError(ErrorCode.InvalidRequest, `Permission denied: ${deniedReason}`);
+    }
+    
+    const prompt = await findPrompt(projectDb, name);
+    if (!prompt) {
+        throw new McpError(ErrorCode.InvalidParams, `Prompt not found: ${name}`);
+    }
+    
+    return renderPrompt(prompt, promptArgs);
+}
+
+// JSON schema for the filter conditions shared by query tools
+const filtersInputSchema = {
+    type: "array",
+    description: "An array of filter conditions",
+    items: {
+        type: "object",
+        properties: {
+            field: {
+                type: "string",
+                description: "The document field to filter on"
+            },
+            operator: {
+                type: "string",
+                description: "The comparison operator",
+                enum: ["==", "!=", ">", "<", ">=", "<=", "array-contains", "array-contains-any", "in", "not-in"]
+            },
+            value: {
+                description: "The value to compare against"
+            }
+        },
+        required: ["field", "operator", "value"]
+    }
+};
+
+// JSON schema properties for the field projection and size controls of the tools that return documents
+const outputInputProperties = {
+    select: {
+        type: "array",
+        description: "Return only these fields, as dotted field paths; an empty list returns only IDs and version times",
+        items: { type: "string" }
+    },
+    maxBytes: {
+        type: "number",
+        description: "Size budget of the response in bytes; long strings and arrays in the documents are shortened, with explicit markers, to fit",
+        minimum: 1
+    },
+    maxTokens: {
+        type: "number",
+        description: "Size budget of the response in tokens, counted as about 4 bytes each",
+        minimum: 1
+    },
+    compact: {
+        type: "boolean",
+        description: "Return JSON without indentation"
+    }
+};
+
+// JSON schema for the composite filter tree shared by query tools
+const whereInputSchema = {
+    type: "object",
+    description: "A composite filter tree, combined with any 'filters'. Each node is either { and: [nodes] }, { or: [nodes] } " +
+        "or a leaf condition { field, operator, value }. " +
+        "Example: { or: [{ field: 'status', operator: '==', value: 'open' }, { field: 'priority', operator: '==', value: 'high' }] }",
+    properties: {
+        and: {
+            type: "array",
+            description: "Child nodes that must all match",
+            items: { type: "object" }
+        },
+        or: {
+            type: "array",
+            description: "Child nodes of which at least one must match",
+            items: { type: "object" }
+        },
+        field: {
+            type: "string",
+            description: "The document field to filter on (leaf conditions)"
+        },
+        operator: {
+            type: "string",
+            description: "The comparison operator (leaf conditions)",
+            enum: ["==", "!=", ">", "<", ">=", "<=", "array-contains", "array-contains-any", "in", "not-in"]
+        },
+        value: {
+            description: "The value to compare against (leaf conditions)"
+        }
+    }
+};
+
+// Description of a tool's project argument; projects are named by their alias, if they have one
+function projectDescription(defaultName: string): string {
+    return `The configured project to use, by alias or by project ID if it has no alias (optional, defaults to '${defaultName}')`;
+}
+
+// tools/list handler
+async function listTools() {
+    const tools = [
+        {
+            name: "getDocument",
+            description: "Get a single document from Firestore, by collection and ID or by full document path",
+            inputSchema: {
+                type: "object",
+                properties: {
+                    collection: {
+                        type: "string",
+                        description: "The Firestore collection name or slash-separated collection path (e.g. 'users/uid/orders')"
+                    },
+                    id: {
+                        type: "string",
+                        description: "The document ID to retrieve"
+                    },
+                    path: {
+                        type: "string",
+                        description: "Full slash-separated document path (e.g. 'users/uid/orders/orderId'), used instead of collection and id"
+                    },
+                    ...outputInputProperties,
+                    project: {
+                        type: "string",
+                        description: projectDescription(defaultProject)
+                    },
+                    database: {
+                        type: "string",
+                        description: "A named database of the project, as listed by listProjects (optional, defaults to the project's default database)"
+                    }
+                }
+            }
+        },
+        {
+            name: "createDocument",
+            description: "Create a new document in Firestore, in a collection or at a full document path",
+            inputSchema: {
+                type: "object",
+                properties: {
+                    collection: {
+                        type: "string",
+                        description: "The Firestore collection name or slash-separated collection path (e.g. 'users/uid/orders')"
+                    },
+                    data: {
+                        type: "object",
+                        description: "The document data to create; field values may be transforms such as {\"__type\": \"serverTimestamp\"}"
+                    },
+                    id: {
+                        type: "string",
+                        description: "Optional document ID (will be auto-generated if not provided)"
+                    },
+                    path: {
+                        type: "string",
+                        description: "Full slash-separated document path (e.g. 'users/uid/orders/orderId'), used instead of collection and id"
+                    },
+                    lastUpdateTime: {
+                        type: "string",
+                        description: "Only write if the document's updateTime still equals this value (from a previous read); otherwise fail with a Conflict error"
+                    },
+                    exists: {
+                        type: "boolean",
+                        description: "Only write if the document exists (true) or does not exist (false); otherwise fail with a Conflict error"
+                    },
+                    dryRun: {
+                        type: "boolean",
+                        description: "Preview the change as a field-level diff (added, removed and changed paths) without writing anything",
+                        default: false
+                    },
+                    project: {
+                        type: "string",
+                        description: projectDescription(defaultProject)
+                    },
+                    database: {
+                        type: "string",
+                        description: "A named database of the project, as listed by listProjects (optional, defaults to the project's default database)"
+                    }
+                },
+                required: ["data"]
+            }
+        },
+        {
+            name: "updateDocument",
+            description: "Update an existing document in Firestore, by collection and ID or by full document path",
+            inputSchema: {
+                type: "object",
+                properties: {
+                    collection: {
+                        type: "string",
+                        description: "The Firestore collection name or slash-separated collection path (e.g. 'users/uid/orders')"
+                    },
+                    id: {
+                        type: "string",
+                        description: "The document ID to update"
+                    },
+                    path: {
+                        type: "string",
+                        description: "Full slash-separated document path (e.g. 'users/uid/orders/orderId'), used instead of collection and id"
+                    },
+                    data: {
+                        type: "object",
+                        description: "The document data to update. Field values may be transforms: {\"__type\": \"serverTimestamp\"}, {\"__type\": \"increment\", \"by\": 1}, {\"__type\": \"arrayUnion\" or \"arrayRemove\", \"values\": [...]} or {\"__type\": \"deleteField\"}"
+                    },
+                    merge: {
+                        type: "boolean",
+                        description: "Whether to merge the data with the existing document or overwrite it (ignored when mode is given)",
+                        default: true
+                    },
+                    mode: {
+                        type: "string",
+                        description: "'merge' merges maps into the existing document, 'overwrite' replaces the document, 'update' treats data keys as dotted field paths (e.g. 'address.city') and replaces only those fields",
+                        enum: ["merge", "overwrite", "update"]
+                    },
+                    lastUpdateTime: {
+                        type: "string",
+                        description: "Only write if the document's updateTime still equals this value (from a previous read); otherwise fail with a Conflict error"
+                    },
+                    exists: {
+                        type: "boolean",
+                        description: "Only write if the document exists (true) or does not exist (false); otherwise fail with a Conflict error"
+                    },
+                    dryRun: {
+                        type: "boolean",
+                        description: "Preview the change as a field-level diff (added, removed and changed paths) without writing anything",
+                        default: false
+                    },
+                    project: {
+                        type: "string",
+                        description: projectDescription(defaultProject)
+                    },
+                    database: {
+                        type: "string",
+                        description: "A named database of the project, as listed by listProjects (optional, defaults to the project's default database)"
+                    }
+                },
+                required: ["data"]
+            }
+        },
+        {
+            name: "deleteDocument",
+            description: "Delete a document from Firestore, by collection and ID or by full document path. Subcollections are left in place; use deleteRecursive to remove them too",
+            inputSchema: {
+                type: "object",
+                properties: {
+                    collection: {
+                        type: "string",
+                        description: "The Firestore collection name or slash-separated collection path (e.g. 'users/uid/orders')"
+                    },
+                    id: {
+                        type: "string",
+                        description: "The document ID to delete"
+                    },
+                    path: {
+                        type: "string",
+                        description: "Full slash-separated document path (e.g. 'users/uid/orders/orderId'), used instead of collection and id"
+                    },
+                    lastUpdateTime: {
+                        type: "string",
+                        description: "Only write if the document's updateTime still equals this value (from a previous read); otherwise fail with a Conflict error"
+                    },
+                    exists: {
+                        type: "boolean",
+                        description: "Only write if the document exists (true) or does not exist (false); otherwise fail with a Conflict error"
+                    },
+                    dryRun: {
+                        type: "boolean",
+                        description: "Preview the change as a field-level diff (added, removed and changed paths) without writing anything",
+                        default: false
+                    },
+                    project: {
+                        type: "string",
+                        description: projectDescription(defaultProject)
+                    },
+                    database: {
+                        type: "string",
+                        description: "A named database of the project, as listed by listProjects (optional, defaults to the project's default database)"
+                    }
+                }
+            }
+        },
+        {
+            name: "queryDocuments",
+            description: "Query documents from Firestore with filters, ordering, and limits, in one collection or across a collection group",
+            inputSchema: {
+                type: "object",
+                properties: {
+                    collection: {
+                        type: "string",
+                        description: "The Firestore collection name or slash-separated collection path (e.g. 'users/uid/orders')"
+                    },
+                    collectionGroup: {
+                        type: "boolean",
+                        description: "Query every collection with this collection ID at any depth (e.g. all 'comments' subcollections); collection must then be a collection ID without slashes",
+                        default: false
+                    },
+                    filters: filtersInputSchema,
+                    where: whereInputSchema,
+                    orderBy: {
+                        type: "array",
+                        description: "An array of ordering directives",
+                        items: {
+                            type: "object",
+                            properties: {
+                                field: {
+                                    type: "string",
+                                    description: "The document field to order by"
+                                },
+                                direction: {
+                                    type: "string",
+                                    description: "The sort direction",
+                                    enum: ["asc", "desc"],
+                                    default: "asc"
+                                }
+                            },
+                            required: ["field"]
+                        }
+                    },
+                    limit: {
+                        type: "number",
+                        description: `The maximum number of documents to return, which is also the page size (default ${QUERY_PAGE_SIZE})`,
+                        minimum: 1,
+                        default: QUERY_PAGE_SIZE
+                    },
+                    offset: {
+                        type: "number",
+                        description: "The number of matching documents to skip (skipped documents are still billed as reads)",
+                        minimum: 0
+                    },
+                    startAt: {
+                        type: "array",
+                        description: "Start the results at these orderBy field values (inclusive), one value per orderBy field",
+                        items: {}
+                    },
+                    startAfter: {
+                        type: "array",
+                        description: "Start the results after these orderBy field values (exclusive), one value per orderBy field",
+                        items: {}
+                    },
+                    endBefore: {
+                        type: "array",
+                        description: "End the results before these orderBy field values (exclusive), one value per orderBy field",
+                        items: {}
+                    },
+                    pageToken: {
+                        type: "string",
+                        description: "The nextPageToken returned by a previous call with the same collection, filters and orderBy"
+                    },
+                    ...outputInputProperties,
+                    project: {
+                        type: "string",
+                        description: projectDescription(defaultProject)
+                    },
+                    database: {
+                        type: "string",
+                        description: "A named database of the project, as listed by listProjects (optional, defaults to the project's default database)"
+                    }
+                },
+                required: ["collection"]
+            }
+        },
+        {
+            name: "aggregateDocuments",
+            description: "Run server-side count, sum and average aggregations over the documents matching the filters, without reading each document",
+            inputSchema: {
+                type: "object",
+                properties: {
+                    collection: {
+                        type: "string",
+                        description: "The Firestore collection name or slash-separated collection path (e.g. 'users/uid/orders')"
+                    },
+                    collectionGroup: {
+                        type: "boolean",
+                        description: "Query every collection with this collection ID at any depth (e.g. all 'comments' subcollections); collection must then be a collection ID without slashes",
+                        default: false
+                    },
+                    filters: filtersInputSchema,
+                    where: whereInputSchema,
+                    aggregations: {
+                        type: "array",
+                        description: "Named aggregations to compute (at most 5)",
+                        items: {
+                            type: "object",
+                            properties: {
+                                alias: {
+                                    type: "string",
+                                    description: "The name of the aggregation in the result"
+                                },
+                                type: {
+                                    type: "string",
+                                    description: "The aggregation to compute",
+                                    enum: ["count", "sum", "average"]
+                                },
+                                field: {
+                                    type: "string",
+                                    description: "The numeric field to aggregate (required for sum and average)"
+                                }
+                            },
+                            required: ["alias", "type"]
                         },
-                        id: {
-                            type: "string",
-                            description: "The document ID to retrieve"
+                        minItems: 1,
+                        maxItems: 5
+                    },
+                    project: {
+                        type: "string",
+                        description: projectDescription(defaultProject)
+                    },
+                    database: {
+                        type: "string",
+                        description: "A named database of the project, as listed by listProjects (optional, defaults to the project's default database)"
+                    }
+                },
+                required: ["collection", "aggregations"]
+            }
+        },
+        {
+            name: "vectorSearch",
+            description: "Find the documents whose vector field is nearest to a query vector (Firestore findNearest), optionally pre-filtered; requires a vector index on the field",
+            inputSchema: {
+                type: "object",
+                properties: {
+                    collection: {
+                        type: "string",
+                        description: "The Firestore collection name or slash-separated collection path (e.g. 'users/uid/orders')"
+                    },
+                    collectionGroup: {
+                        type: "boolean",
+                        description: "Query every collection with this collection ID at any depth (e.g. all 'comments' subcollections); collection must then be a collection ID without slashes",
+                        default: false
+                    },
+                    filters: filtersInputSchema,
+                    where: whereInputSchema,
+                    vectorField: {
+                        type: "string",
+                        description: "The field holding the document embeddings, stored as vector values"
+                    },
+                    queryVector: {
+                        type: "array",
+                        description: "The vector to search for; it must have the same dimension as the stored vectors",
+                        items: { type: "number" },
+                        minItems: 1
+                    },
+                    distanceMeasure: {
+                        type: "string",
+                        description: "How distance between vectors is measured",
+                        enum: ["COSINE", "EUCLIDEAN", "DOT_PRODUCT"],
+                        default: "COSINE"
+                    },
+                    limit: {
+                        type: "number",
+                        description: "The number of nearest documents to return",
+                        minimum: 1,
+                        maximum: 1000,
+                        default: 10
+                    },
+                    distanceThreshold: {
+                        type: "number",
+                        description: "Only return documents within this distance; for DOT_PRODUCT, documents whose similarity is at least this value"
+                    },
+                    distanceResultField: {
+                        type: "string",
+                        description: "A field name under which each returned document carries its computed distance"
+                    },
+                    ...outputInputProperties,
+                    project: {
+                        type: "string",
+                        description: projectDescription(defaultProject)
+                    },
+                    database: {
+                        type: "string",
+                        description: "A named database of the project, as listed by listProjects (optional, defaults to the project's default database)"
+                    }
+                },
+                required: ["collection", "vectorField", "queryVector"]
+            }
+        },
+        {
+            name: "batchWrite",
+            description: "Atomically apply a list of create, update and delete operations across collections; either all succeed or none are applied",
+            inputSchema: {
+                type: "object",
+                properties: {
+                    operations: {
+                        type: "array",
+                        description: "The write operations to apply",
+                        items: {
+                            type: "object",
+                            properties: {
+                                type: {
+                                    type: "string",
+                                    description: "The operation type (create fails if the document exists, update fails if it does not)",
+                                    enum: ["create", "update", "delete"]
+                                },
+                                collection: {
+                                    type: "string",
+                                    description: "The Firestore collection name or slash-separated collection path"
+                                },
+                                id: {
+                                    type: "string",
+                                    description: "The document ID (optional for create, auto-generated if not provided)"
+                                },
+                                path: {
+                                    type: "string",
+                                    description: "Full slash-separated document path, used instead of collection and id"
+                                },
+                                data: {
+                                    type: "object",
+                                    description: "The document data (required for create and update); field values may be transforms such as {\"__type\": \"increment\", \"by\": 1}"
+                                },
+                                merge: {
+                                    type: "boolean",
+                                    description: "For update, whether to merge the data with the existing document or overwrite it (ignored when mode is given)",
+                                    default: true
+                                },
+                                mode: {
+                                    type: "string",
+                                    description: "For update, 'merge', 'overwrite' or 'update' (dotted field paths)",
+                                    enum: ["merge", "overwrite", "update"]
+                                },
+                                lastUpdateTime: {
+                                    type: "string",
+                                    description: "For update and delete, only write if the document's updateTime still equals this value"
+                                },
+                                exists: {
+                                    type: "boolean",
+                                    description: "For update and delete, only write if the document exists (true) or does not exist (false)"
+                                }
+                            },
+                            required: ["type"]
                         },
-                        project: {
-                            type: "string",
-                            description: "The Google project ID to use (optional, defaults to the first project in GOOGLE_CLOUD_PROJECTS)"
+                        minItems: 1,
+                        maxItems: 500
+                    },
+                    dryRun: {
+                        type: "boolean",
+                        description: "Preview each operation as a field-level diff (added, removed and changed paths) without writing anything",
+                        default: false
+                    },
+                    project: {
+                        type: "string",
+                        description: projectDescription(defaultProject)
+                    },
+                    database: {
+                        type: "string",
+                        description: "A named database of the project, as listed by listProjects (optional, defaults to the project's default database)"
+                    }
+                },
+                required: ["operations"]
+            }
+        },
+        {
+            name: "runTransaction",
+            description: "Read documents, check preconditions on their field values, and only if all hold apply the write operations atomically",
+            inputSchema: {
+                type: "object",
+                properties: {
+                    reads: {
+                        type: "array",
+                        description: "Documents to read in the transaction and return in the result",
+                        items: {
+                            type: "object",
+                            properties: {
+                                collection: {
+                                    type: "string",
+                                    description: "The Firestore collection name or slash-separated collection path"
+                                },
+                                id: {
+                                    type: "string",
+                                    description: "The document ID"
+                                },
+                                path: {
+                                    type: "string",
+                                    description: "Full slash-separated document path, used instead of collection and id"
+                                }
+                            }
                         }
                     },
-                    required: ["collection", "id"]
-                }
-            },
-            {
-                name: "createDocument",
-                description: "Create a new document in Firestore",
-                inputSchema: {
-                    type: "object",
-                    properties: {
-                        collection: {
-                            type: "string",
-                            description: "The Firestore collection name"
-                        },
-                        data: {
-                            type: "object",
-                            description: "The document data to create"
-                        },
-                        id: {
-                            type: "string",
-                            description: "Optional document ID (will be auto-generated if not provided)"
-                        },
-                        project: {
-                            type: "string",
-                            description: "The Google project ID to use (optional, defaults to the first project in GOOGLE_CLOUD_PROJECTS)"
-                        }
+                    preconditions: {
+                        type: "array",
+                        description: "Conditions that must hold for the documents read in the transaction before any write is applied",
+                        items: {
+                            type: "object",
+                            properties: {
+                                collection: {
+                                    type: "string",
+                                    description: "The Firestore collection name or slash-separated collection path"
+                                },
+                                id: {
+                                    type: "string",
+                                    description: "The document ID"
+                                },
+                                path: {
+                                    type: "string",
+                                    description: "Full slash-separated document path, used instead of collection and id"
+                                },
+                                field: {
+                                    type: "string",
+                                    description: "The document field to check (omit with 'exists'/'missing' to check the document itself)"
+                                },
+                                operator: {
+                                    type: "string",
+                                    description: "The comparison operator",
+                                    enum: ["exists", "missing", "==", "!=", ">", "<", ">=", "<=", "array-contains", "array-contains-any", "in", "not-in"]
+                                },
+                                value: {
+                                    description: "The value to compare against"
+                                }
+                            },
+                            required: ["operator"]
+                        }
+                    },
+                    operations: {
+                        type: "array",
+                        description: "The write operations to apply",
+                        items: {
+                            type: "object",
+                            properties: {
+                                type: {
+                                    type: "string",
+                                    description: "The operation type (create fails if the document exists, update fails if it does not)",
+                                    enum: ["create", "update", "delete"]
+                                },
+                                collection: {
+                                    type: "string",
+                                    description: "The Firestore collection name or slash-separated collection path"
+                                },
+                                id: {
+                                    type: "string",
+                                    description: "The document ID (optional for create, auto-generated if not provided)"
+                                },
+                                path: {
+                                    type: "string",
+                                    description: "Full slash-separated document path, used instead of collection and id"
+                                },
+                                data: {
+                                    type: "object",
+                                    description: "The document data (required for create and update); field values may be transforms such as {\"__type\": \"increment\", \"by\": 1}"
+                                },
+                                merge: {
+                                    type: "boolean",
+                                    description: "For update, whether to merge the data with the existing document or overwrite it (ignored when mode is given)",
+                                    default: true
+                                },
+                                mode: {
+                                    type: "string",
+                                    description: "For update, 'merge', 'overwrite' or 'update' (dotted field paths)",
+                                    enum: ["merge", "overwrite", "update"]
+                                },
+                                lastUpdateTime: {
+                                    type: "string",
+                                    description: "For update and delete, only write if the document's updateTime still equals this value"
+                                },
+                                exists: {
+                                    type: "boolean",
+                                    description: "For update and delete, only write if the document exists (true) or does not exist (false)"
+                                }
+                            },
+                            required: ["type"]
+                        },
+                        minItems: 1,
+                        maxItems: 500
+                    },
+                    dryRun: {
+                        type: "boolean",
+                        description: "Preview each operation as a field-level diff (added, removed and changed paths) without writing anything",
+                        default: false
+                    },
+                    project: {
+                        type: "string",
+                        description: projectDescription(defaultProject)
+                    },
+                    database: {
+                        type: "string",
+                        description: "A named database of the project, as listed by listProjects (optional, defaults to the project's default database)"
+                    }
+                },
+                required: ["operations"]
+            }
+        },
+        {
+            name: "deleteRecursive",
+            description: "Delete a document with all of its subcollections, or every document in a collection. The first call only previews: it counts the documents that would be deleted and returns a confirmationToken. Call again with the same target and that token to delete. No more documents than were counted are deleted; documents added meanwhile are left for another preview.",
+            inputSchema: {
+                type: "object",
+                properties: {
+                    collection: {
+                        type: "string",
+                        description: "A collection path to clear, or with id, the collection of the document to delete"
+                    },
+                    id: {
+                        type: "string",
+                        description: "The document ID to delete"
+                    },
+                    path: {
+                        type: "string",
+                        description: "Full slash-separated document path to delete, used instead of collection and id"
+                    },
+                    confirmationToken: {
+                        type: "string",
+                        description: "The token returned by the preview; without it nothing is deleted"
+                    },
+                    maxDocuments: {
+                        type: "number",
+                        description: `Refuse if more documents than this would be deleted (default and maximum ${RECURSIVE_DELETE_MAX_DOCUMENTS})`
+                    },
+                    project: {
+                        type: "string",
+                        description: projectDescription(defaultProject)
+                    },
+                    database: {
+                        type: "string",
+                        description: "A named database of the project, as listed by listProjects (optional, defaults to the project's default database)"
+                    }
+                }
+            }
+        },
+        {
+            name: "exportCollection",
+            description: "Export the documents of a collection to a file in the export directory, as NDJSON, a JSON array or CSV. Values use the typed encoding, so Timestamps, references and other Firestore types survive an import of the file",
+            inputSchema: {
+                type: "object",
+                properties: {
+                    collection: {
+                        type: "string",
+                        description: "The Firestore collection name or slash-separated collection path (e.g. 'users/uid/orders')"
+                    },
+                    file: {
+                        type: "string",
+                        description: "File name relative to the export directory (e.g. 'users.ndjson'); an existing file is replaced"
+                    },
+                    format: {
+                        type: "string",
+                        description: "File format (defaults to the file extension: .ndjson or .jsonl, .json, .csv)",
+                        enum: ["ndjson", "json", "csv"]
+                    },
+                    includeSubcollections: {
+                        type: "boolean",
+                        description: "Also export the documents of every subcollection below the collection",
+                        default: false
+                    },
+                    limit: {
+                        type: "number",
+                        description: "Stop after this many documents (optional, defaults to all)",
+                        minimum: 1
+                    },
+                    project: {
+                        type: "string",
+                        description: projectDescription(defaultProject)
+                    },
+                    database: {
+                        type: "string",
+                        description: "A named database of the project, as listed by listProjects (optional, defaults to the project's default database)"
+                    }
+                },
+                required: ["collection", "file"]
+            }
+        },
+        {
+            name: "importCollection",
+            description: "Import documents into a collection from an NDJSON, JSON or CSV file in the export directory, such as one written by exportCollection. Document paths in the file are relative to the collection, so a file can be imported under a different collection than it was exported from. NDJSON files are read a record at a time; JSON and CSV files are read into memory whole, so use NDJSON for large imports",
+            inputSchema: {
+                type: "object",
+                properties: {
+                    collection: {
+                        type: "string",
+                        description: "The Firestore collection name or slash-separated collection path to import into"
+                    },
+                    file: {
+                        type: "string",
+                        description: "File name relative to the export directory (e.g. 'users.ndjson')"
                     },
-                    required: ["collection", "data"]
-                }
-            },
-            {
-                name: "updateDocument",
-                description: "Update an existing document in Firestore",
-                inputSchema: {
-                    type: "object",
-                    properties: {
-                        collection: {
-                            type: "string",
-                            description: "The Firestore collection name"
-                        },
-                        id: {
-                            type: "string",
-                            description: "The document ID to update"
-                        },
-                        data: {
-                            type: "object",
-                            description: "The document data to update"
-                        },
-                        merge: {
-                            type: "boolean",
-                            description: "Whether to merge the data with the existing document or overwrite it",
-                            default: true
-                        },
-                        project: {
-                            type: "string",
-                            description: "The Google project ID to use (optional, defaults to the first project in GOOGLE_CLOUD_PROJECTS)"
-                        }
+                    format: {
+                        type: "string",
+                        description: "File format (defaults to the file extension: .ndjson or .jsonl, .json, .csv)",
+                        enum: ["ndjson", "json", "csv"]
                     },
-                    required: ["collection", "id", "data"]
-                }
-            },
-            {
-                name: "deleteDocument",
-                description: "Delete a document from Firestore",
-                inputSchema: {
-                    type: "object",
-                    properties: {
-                        collection: {
-                            type: "string",
-                            description: "The Firestore collection name"
-                        },
-                        id: {
-                            type: "string",
-                            description: "The document ID to delete"
-                        },
-                        project: {
-                            type: "string",
-                            description: "The Google project ID to use (optional, defaults to the first project in GOOGLE_CLOUD_PROJECTS)"
-                        }
+                    onConflict: {
+                        type: "string",
+                        description: "What to do with documents that already exist: skip them, overwrite them, or merge the imported fields into them",
+                        enum: ["skip", "overwrite", "merge"],
+                        default: "skip"
                     },
-                    required: ["collection", "id"]
-                }
-            },
-            {
-                name: "queryDocuments",
-                description: "Query documents from Firestore with filters, ordering, and limits",
-                inputSchema: {
-                    type: "object",
-                    properties: {
-                        collection: {
-                            type: "string",
-                            description: "The Firestore collection name"
-                        },
-                        filters: {
-                            type: "array",
-                            description: "An array of filter conditions",
-                            items: {
-                                type: "object",
-                                properties: {
-                                    field: {
-                                        type: "string",
-                                        description: "The document field to filter on"
-                                    },
-                                    operator: {
-                                        type: "string",
-                                        description: "The comparison operator",
-                                        enum: ["==", "!=", ">", "<", ">=", "<=", "array-contains", "array-contains-any", "in", "not-in"]
-                                    },
-                                    value: {
-                                        description: "The value to compare against"
-                                    }
-                                },
-                                required: ["field", "operator", "value"]
-                            }
-                        },
-                        orderBy: {
-                            type: "array",
-                            description: "An array of ordering directives",
-                            items: {
-                                type: "object",
-                                properties: {
-                                    field: {
-                                        type: "string",
-                                        description: "The document field to order by"
-                                    },
-                                    direction: {
-                                        type: "string",
-                                        description: "The sort direction",
-                                        enum: ["asc", "desc"],
-                                        default: "asc"
-                                    }
-                                },
-                                required: ["field"]
-                            }
-                        },
-                        limit: {
-                            type: "number",
-                            description: "The maximum number of documents to return",
-                            minimum: 1
-                        },
-                        project: {
-                            type: "string",
-                            description: "The Google project ID to use (optional, defaults to the first project in GOOGLE_CLOUD_PROJECTS)"
-                        }
+                    dryRun: {
+                        type: "boolean",
+                        description: "Read and check the whole file and count the documents that would be written or skipped, without writing anything",
+                        default: false
+                    },
+                    project: {
+                        type: "string",
+                        description: projectDescription(defaultProject)
+                    },
+                    database: {
+                        type: "string",
+                        description: "A named database of the project, as listed by listProjects (optional, defaults to the project's default database)"
+                    }
+                },
+                required: ["collection", "file"]
+            }
+        },
+        {
+            name: "listCollections",
+            description: "List all root collections in the Firestore database",
+            inputSchema: {
+                type: "object",
+                properties: {
+                    project: {
+                        type: "string",
+                        description: projectDescription(defaultProject)
                     },
-                    required: ["collection"]
+                    database: {
+                        type: "string",
+                        description: "A named database of the project, as listed by listProjects (optional, defaults to the project's default database)"
+                    }
                 }
-            },
-            {
-                name: "listCollections",
-                description: "List all collections in the Firestore database",
-                inputSchema: {
-                    type: "object",
-                    properties: {
-                        project: {
-                            type: "string",
-                            description: "The Google project ID to use (optional, defaults to the first project in GOOGLE_CLOUD_PROJECTS)"
-                        }
+            }
+        },
+        {
+            name: "listSubcollections",
+            description: "List the subcollections of a document, by collection and ID or by full document path",
+            inputSchema: {
+                type: "object",
+                properties: {
+                    collection: {
+                        type: "string",
+                        description: "The Firestore collection name or slash-separated collection path (e.g. 'users/uid/orders')"
+                    },
+                    id: {
+                        type: "string",
+                        description: "The ID of the parent document"
+                    },
+                    path: {
+                        type: "string",
+                        description: "Full slash-separated path of the parent document (e.g. 'users/uid'), used instead of collection and id"
+                    },
+                    project: {
+                        type: "string",
+                        description: projectDescription(defaultProject)
+                    },
+                    database: {
+                        type: "string",
+                        description: "A named database of the project, as listed by listProjects (optional, defaults to the project's default database)"
                     }
                 }
-            },
-            {
-                name: "listProjects",
-                description: "List all available Google project IDs that have been initialized",
-                inputSchema: {
-                    type: "object",
-                    properties: {}
+            }
+        },
+        {
+            name: "describeCollection",
+            description: "Infer the schema of a collection from a sample of its documents: every field path with its types, presence percentage, example values and cardinality, including nested map fields and array element types, plus the subcollections seen under the sampled documents",
+            inputSchema: {
+                type: "object",
+                properties: {
+                    collection: {
+                        type: "string",
+                        description: "The Firestore collection name or slash-separated collection path (e.g. 'users/uid/orders')"
+                    },
+                    sampleSize: {
+                        type: "number",
+                        description: `How many documents to sample, in document ID order (defaults to 100, at most ${DESCRIBE_MAX_DOCUMENTS})`,
+                        minimum: 1,
+                        maximum: DESCRIBE_MAX_DOCUMENTS
+                    },
+                    all: {
+                        type: "boolean",
+                        description: `Sample every document, up to ${DESCRIBE_MAX_DOCUMENTS}, instead of sampleSize`,
+                        default: false
+                    },
+                    schemaFormat: {
+                        type: "string",
+                        description: "Also return the inferred schema as JSON Schema, Zod source or a TypeScript type, describing documents in the tagged value encoding",
+                        enum: ["jsonSchema", "zod", "typescript"]
+                    },
+                    project: {
+                        type: "string",
+                        description: projectDescription(defaultProject)
+                    },
+                    database: {
+                        type: "string",
+                        description: "A named database of the project, as listed by listProjects (optional, defaults to the project's default database)"
+                    }
+                },
+                required: ["collection"]
+            }
+        },
+        {
+            name: "listProjects",
+            description: "List all available Google project IDs that have been initialized, and which of them use the Firestore emulator",
+            inputSchema: {
+                type: "object",
+                properties: {}
+            }
+        },
+        {
+            name: "getAuditLog",
+            description: "Query recent entries of the audit log of tool invocations, newest first",
+            inputSchema: {
+                type: "object",
+                properties: {
+                    tool: {
+                        type: "string",
+                        description: "Only entries for this tool"
+                    },
+                    project: {
+                        type: "string",
+                        description: "Only entries for this Google project ID"
+                    },
+                    outcome: {
+                        type: "string",
+                        description: "Only entries with this outcome",
+                        enum: ["success", "error", "denied", "invalid", "conflict"]
+                    },
+                    path: {
+                        type: "string",
+                        description: "Only entries that touched this document or collection path, or a path below it"
+                    },
+                    since: {
+                        type: "string",
+                        description: "Only entries at or after this ISO-8601 timestamp"
+                    },
+                    limit: {
+                        type: "number",
+                        description: "The maximum number of entries to return (defaults to 50)",
+                        minimum: 1,
+                        maximum: 1000
+                    }
                 }
-            },
-            {
-                name: "listPrompts",
-                description: "List all prompts stored in Firestore",
-                inputSchema: {
-                    type: "object",
-                    properties: {
-                        collection: {
-                            type: "string",
-                            description: "The Firestore collection containing prompts (defaults to 'prompts')",
-                            default: "prompts"
-                        },
-                        project: {
-                            type: "string",
-                            description: "The Google project ID to use (optional, defaults to the first project in GOOGLE_CLOUD_PROJECTS)"
-                        },
-                        limit: {
-                            type: "number",
-                            description: "The maximum number of prompts to return",
-                            minimum: 1
-                        }
+            }
+        },
+        {
+            name: "listPrompts",
+            description: "List all prompts stored in Firestore",
+            inputSchema: {
+                type: "object",
+                properties: {
+                    collection: {
+                        type: "string",
+                        description: "The Firestore collection containing prompts (defaults to FIRESTORE_PROMPTS_COLLECTION or 'prompts')"
+                    },
+                    project: {
+                        type: "string",
+                        description: projectDescription(promptsProject)
+                    },
+                    database: {
+                        type: "string",
+                        description: "A named database of the project, as listed by listProjects (optional, defaults to the project's default database)"
+                    },
+                    limit: {
+                        type: "number",
+                        description: "The maximum number of prompts to return (page size when paginating)",
+                        minimum: 1,
+                        maximum: 1000
+                    },
+                    pageToken: {
+                        type: "string",
+                        description: "The nextPageToken returned by a previous call with the same collection"
                     }
                 }
             }
-        ],
+        }
+    ];
+    
+    // Hide tools that no initialized project permits
+    const projectIds = Object.keys(firestoreInstances);
+    return {
+        tools: tools.filter(tool => anyProjectGrants(policy, projectIds, TOOL_PERMISSIONS[tool.name] || 'read')),
     };
-});
+}
+
+// Sends progress notifications for a long-running tool call, if the client asked for them
+type ProgressReporter = (progress: number, total?: number) => void;
+
+function progressReporter(server: Server, request: CallToolRequest): ProgressReporter {
+    const progressToken = request.params._meta?.progressToken;
+    return (progress, total) => {
+        if (progressToken === undefined) return;
+        server.notification({ method: "notifications/progress", params: { progressToken, progress, total } })
+            .catch(error => console.error("Error sending progress notification:", error));
+    };
+}
 
-// Register call tool handler
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
+// tools/call handler, recording every invocation in the audit log and flagging error results
+async function handleCallTool(request: CallToolRequest, reportProgress: ProgressReporter) {
     const { name, arguments: args } = request.params;
+    const startedAt = Date.now();
+    
+    const result = await callTool(name, args, reportProgress);
+    const outcome = auditOutcome(result);
+    
+    const projectArg = typeof args?.project === 'string' ? args.project : undefined;
+    const databaseArg = typeof args?.database === 'string' ? args.database : undefined;
+    auditLog.record({
+        timestamp: new Date(startedAt).toISOString(),
+        tool: name,
+        project: name === "getAuditLog" ? "" : policyProject(projectArg || defaultProject),
+        ...(databaseArg ? { database: databaseArg } : {}),
+        paths: auditPaths(args),
+        argsHash: hashArguments(args),
+        ...outcome,
+        durationMs: Date.now() - startedAt,
+    });
+    
+    // A per-call compact option overrides FIRESTORE_COMPACT_OUTPUT, as it does for the documents' own formatting
+    const compact = typeof args?.compact === 'boolean' ? args.compact : compactOutput;
+    return compact ? compactResult(result) : result;
+}
+
+// Drop the indentation of a tool result's JSON text
+function compactResult<T extends { content: { type: string; text?: string }[] }>(result: T): T {
+    return {
+        ...result,
+        content: result.content.map(item => item.type === "text" && item.text ? { ...item, text: JSON.stringify(JSON.parse(item.text)) } : item)
+    };
+}
 
+// Run a tool call and format its result or error
+async function callTool(name: string, args: Record<string, unknown> | undefined, reportProgress: ProgressReporter) {
     try {
         if (name === "getDocument") {
-            const { collection, id, project } = CollectionDocumentSchema.parse(args);
+            const { collection, id, path: documentPath, select, project, database, ...output } = GetDocumentSchema.parse(args);
+            const docPath = resolveDocumentPath(collection, id, documentPath);
+            
+            if (!docPath) {
+                return toolError({ error: "Either a document path or a collection and document ID is required" }, "invalid");
+            }
+            
+            // Get the Firestore instance for the specified project or default
+            const projectId = project || defaultProject;
+            const projectDb = projectFirestore(projectId, database);
+            
+            if (!projectDb) {
+                return toolError({ error: projectNotFoundMessage(projectId, database) });
+            }
+            
+            assertAccess(policy, policyProject(projectId), 'read', parentCollectionPath(docPath));
+            
+            const docRef = projectDb.doc(docPath);
+            // A field mask reads only the selected fields
+            const [doc] = select ? await projectDb.getAll(docRef, { fieldMask: select }) : [await docRef.get()];
+            
+            if (!doc.exists) {
+                return toolError({ error: "Document not found" });
+            }
+            
+            return {
+                content: [{ 
+                    type: "text", 
+                    text: documentsResponse([documentResult(doc)], ([document]) => document, outputOptions(output)) 
+                }]
+            };
+        }
+        else if (name === "createDocument") {
+            const { collection, data, id, path: documentPath, lastUpdateTime, exists, dryRun, project, database } = CreateDocumentSchema.parse(args);
+            
+            if (!collection && !documentPath) {
+                return toolError({ error: "Either a document path or a collection is required" }, "invalid");
+            }
+            
+            const docPath = resolveDocumentPath(collection, id, documentPath);
+            
+            // Get the Firestore instance for the specified project or default
+            const projectId = project || defaultProject;
+            const projectDb = projectFirestore(projectId, database);
+            
+            if (!projectDb) {
+                return toolError({ error: projectNotFoundMessage(projectId, database) });
+            }
+            
+            assertAccess(policy, policyProject(projectId), 'write',
+                documentPath ? parentCollectionPath(normalizePath(documentPath)) : normalizePath(collection!));
+            
+            // Decode tagged input values (timestamps, references, field transforms, ...) into Firestore values
+            const transformedData = decodeValue(data, projectDb, { transforms: true });
+            
+            let docRef;
+            let result;
             
-            if (!id) {
+            const precondition = { lastUpdateTime, exists };
+            
+            if (!docPath && hasWritePrecondition(precondition)) {
+                return toolError({ error: "lastUpdateTime and exists require a document path or ID" }, "invalid");
+            }
+            
+            const targetPath = docPath || `${normalizePath(collection!)}/(auto-generated ID)`;
+            const validation = await validationFailures(schemaRegistry(projectId, projectDb), new Map([[targetPath, mergeData(null, transformedData)]]));
+            
+            if (dryRun) {
+                // A document with an explicit ID is overwritten if it already exists
+                const existing = docPath ? await projectDb.doc(docPath).get() : null;
+                const before = existing?.exists ? existing.data()! : null;
+                const conflict = existing && hasWritePrecondition(precondition) ? writeConflict(existing, precondition) : null;
+                
+                return {
+                    content: [{ 
+                        type: "text", 
+                        text: JSON.stringify({
+                            dryRun: true,
+                            path: targetPath,
+                            exists: before !== null,
+                            ...(conflict ? { conflict } : {}),
+                            ...(validation.length > 0 ? { validationErrors: validation[0].errors } : {}),
+                            diff: encode(diffDocuments(before, mergeData(null, transformedData)))
+                        }, null, 2) 
+                    }]
+                };
+            }
+            
+            if (validation.length > 0) {
+                throw new SchemaValidationError(validation);
+            }
+            
+            if (docPath) {
+                const targetRef = projectDb.doc(docPath);
+                await writeDocument(targetRef, precondition, writer => writer.set(targetRef, transformedData, { merge: false }));
+                docRef = targetRef;
+                result = { id: docRef.id, path: docRef.path, data: encode(transformedData) };
+            } else {
+                docRef = await projectDb.collection(normalizePath(collection!)).add(transformedData);
+                result = { id: docRef.id, path: docRef.path, data: encode(transformedData) };
+            }
+            
+            return {
+                content: [{ 
+                    type: "text", 
+                    text: JSON.stringify(result, null, 2) 
+                }]
+            };
+        }
+        else if (name === "updateDocument") {
+            const { collection, id, path: documentPath, data, merge, mode, lastUpdateTime, exists, dryRun, project, database } = UpdateDocumentSchema.parse(args);
+            const docPath = resolveDocumentPath(collection, id, documentPath);
+            
+            if (!docPath) {
+                return toolError({ error: "Either a document path or a collection and document ID is required" }, "invalid");
+            }
+            
+            // Get the Firestore instance for the specified project or default
+            const projectId = project || defaultProject;
+            const projectDb = projectFirestore(projectId, database);
+            
+            if (!projectDb) {
+                return toolError({ error: projectNotFoundMessage(projectId, database) });
+            }
+            
+            assertAccess(policy, policyProject(projectId), 'write', parentCollectionPath(docPath));
+            
+            const docRef = projectDb.doc(docPath);
+            const doc = await docRef.get();
+            
+            // Preconditions come first: a document deleted since it was read is a conflict, not a missing document
+            const precondition = { lastUpdateTime, exists };
+            const missingConflict = !doc.exists && hasWritePrecondition(precondition) ? writeConflict(doc, precondition) : null;
+            if (missingConflict) {
+                throw new WriteConflictError([missingConflict]);
+            }
+            
+            if (!doc.exists) {
+                return toolError({ error: "Document not found" });
+            }
+            
+            // Decode tagged input values (timestamps, references, field transforms, ...) into Firestore values
+            const transformedData = decodeValue(data, projectDb, { transforms: true });
+            const effectiveMode = updateMode({ mode, merge });
+            
+            // Schemas apply to the document as the update leaves it, so a merge is validated on the merged result
+            const before = doc.data()!;
+            const after = updatedDocument(before, transformedData, effectiveMode);
+            const validation = await validationFailures(schemaRegistry(projectId, projectDb), new Map([[docPath, after]]));
+            
+            if (dryRun) {
+                const conflict = hasWritePrecondition(precondition) ? writeConflict(doc, precondition) : null;
+                
+                return {
+                    content: [{ 
+                        type: "text", 
+                        text: JSON.stringify({
+                            dryRun: true,
+                            path: docPath,
+                            mode: effectiveMode,
+                            ...(conflict ? { conflict } : {}),
+                            ...(validation.length > 0 ? { validationErrors: validation[0].errors } : {}),
+                            diff: encode(diffDocuments(before, after))
+                        }, null, 2) 
+                    }]
+                };
+            }
+            
+            if (validation.length > 0) {
+                throw new SchemaValidationError(validation);
+            }
+            
+            await writeDocument(docRef, precondition, writer => {
+                if (effectiveMode === 'update') {
+                    writer.update(docRef, transformedData);
+                } else {
+                    writer.set(docRef, transformedData, { merge: effectiveMode === 'merge' });
+                }
+            });
+            
+            // Get the updated document
+            const updatedDoc = await docRef.get();
+            
+            return {
+                content: [{ 
+                    type: "text", 
+                    text: JSON.stringify(documentResult(updatedDoc), null, 2) 
+                }]
+            };
+        }
+        else if (name === "deleteDocument") {
+            const { collection, id, path: documentPath, lastUpdateTime, exists, dryRun, project, database } = DeleteDocumentSchema.parse(args);
+            const docPath = resolveDocumentPath(collection, id, documentPath);
+            
+            if (!docPath) {
+                return toolError({ error: "Either a document path or a collection and document ID is required" }, "invalid");
+            }
+            
+            // Get the Firestore instance for the specified project or default
+            const projectId = project || defaultProject;
+            const projectDb = projectFirestore(projectId, database);
+            
+            if (!projectDb) {
+                return toolError({ error: projectNotFoundMessage(projectId, database) });
+            }
+            
+            assertAccess(policy, policyProject(projectId), 'delete', parentCollectionPath(docPath));
+            
+            const docRef = projectDb.doc(docPath);
+            const doc = await docRef.get();
+            
+            // Preconditions come first: a document deleted since it was read is a conflict, not a missing document
+            const precondition = { lastUpdateTime, exists };
+            const conflict = hasWritePrecondition(precondition) ? writeConflict(doc, precondition) : null;
+            
+            if (!doc.exists && !conflict) {
+                return toolError({ error: "Document not found" });
+            }
+            
+            if (dryRun) {
                 return {
                     content: [{ 
                         type: "text", 
-                        text: JSON.stringify({ error: "Document ID is required" }, null, 2) 
+                        text: JSON.stringify({
+                            dryRun: true,
+                            path: docPath,
+                            ...(conflict ? { conflict } : {}),
+                            diff: encode(diffDocuments(doc.data() || null, null))
+                        }, null, 2) 
                     }]
                 };
             }
             
+            if (!doc.exists) {
+                throw new WriteConflictError([conflict!]);
+            }
+            
+            await writeDocument(docRef, precondition, writer => writer.delete(docRef));
+            
+            return {
+                content: [{ 
+                    type: "text", 
+                    text: JSON.stringify({ 
+                        success: true, 
+                        message: `Document ${docPath} deleted in project ${projectId}` 
+                    }, null, 2) 
+                }]
+            };
+        }
+        else if (name === "queryDocuments") {
+            const {
+                collection, collectionGroup, filters, where, orderBy, limit, offset, startAt, startAfter, endBefore, pageToken, select, project, database,
+                ...output
+            } = QueryDocumentsSchema.parse(args);
+            
+            // The token already continues after the skipped documents; skipping them again would lose documents
+            if (pageToken && (startAt || startAfter || offset)) {
+                return toolError({ error: "pageToken cannot be combined with startAt, startAfter or offset" }, "invalid");
+            }
+            
+            // Get the Firestore instance for the specified project or default
+            const projectId = project || defaultProject;
+            const projectDb = projectFirestore(projectId, database);
+            
+            if (!projectDb) {
+                return toolError({ error: projectNotFoundMessage(projectId, database) });
+            }
+            
+            assertAccess(policy, policyProject(projectId), 'read', normalizePath(collection));
+            
+            let query = collectionQuery(projectDb, collection, collectionGroup);
+            
+            // Apply filters
+            query = applyFilters(query, filters, where);
+            
+            // Apply ordering, made explicit (including the trailing document ID) so page cursors are unambiguous
+            const ordering = cursorOrdering([...(filters || []), ...filterLeaves(where)], orderBy);
+            for (const order of ordering.fields) {
+                query = query.orderBy(order.field, order.direction);
+            }
+            query = query.orderBy(admin.firestore.FieldPath.documentId(), ordering.documentIdDirection);
+            
+            // Apply the projection, keeping the ordered fields that page tokens are built from
+            if (select) {
+                query = query.select(...new Set([...select, ...ordering.fields.map(order => order.field)]));
+            }
+            
+            // Apply cursors
+            const fingerprint = queryFingerprint({ projectId, database, collection: normalizePath(collection), collectionGroup, filters, where, orderBy });
+            if (pageToken) {
+                const token = decodePageToken(pageToken, fingerprint);
+                query = query.startAfter(...decodeValue(token.values, projectDb), projectDb.doc(token.path));
+            }
+            if (startAt) {
+                query = query.startAt(...decodeValue(startAt, projectDb));
+            }
+            if (startAfter) {
+                query = query.startAfter(...decodeValue(startAfter, projectDb));
+            }
+            if (endBefore) {
+                query = query.endBefore(...decodeValue(endBefore, projectDb));
+            }
+            
+            // Apply offset
+            if (offset) {
+                query = query.offset(offset);
+            }
+            
+            // Apply limit
+            query = query.limit(limit);
+            
+            const querySnapshot = await query.get();
+            
+            // Collection groups span many parent paths, so drop results from collections the policy denies
+            const readableDocs = querySnapshot.docs.filter(doc =>
+                !collectionGroup || !accessDeniedReason(policy, policyProject(projectId), 'read', doc.ref.parent.path)
+            );
+            
+            // IDs are only unique within a collection, so collection group results carry the full path
+            const documents = readableDocs.map(doc => documentResult(doc, collectionGroup ? { path: doc.ref.path } : {}));
+            
+            // A full page means there may be more documents after it
+            const lastDoc = querySnapshot.docs[querySnapshot.docs.length - 1];
+            const hasMore = querySnapshot.size === limit;
+            
+            return {
+                content: [{ 
+                    type: "text", 
+                    text: documentsResponse(documents, documents => ({
+                        documents,
+                        ...(readableDocs.length < querySnapshot.size
+                            ? { omitted: querySnapshot.size - readableDocs.length, omittedReason: "Denied by collection policy" }
+                            : {}),
+                        nextPageToken: hasMore ? nextPageToken(fingerprint, ordering.fields, lastDoc) : null
+                    }), outputOptions(output)) 
+                }]
+            };
+        }
+        else if (name === "aggregateDocuments") {
+            const { collection, collectionGroup, filters, where, aggregations, project, database } = AggregateDocumentsSchema.parse(args);
+            
             // Get the Firestore instance for the specified project or default
             const projectId = project || defaultProject;
-            const projectDb = firestoreInstances[projectId] || db;
+            const projectDb = projectFirestore(projectId, database);
             
             if (!projectDb) {
-                return {
-                    content: [{ 
-                        type: "text", 
-                        text: JSON.stringify({ error: `Project '${projectId}' not found or not initialized` }, null, 2) 
-                    }]
-                };
+                return toolError({ error: projectNotFoundMessage(projectId, database) });
             }
             
-            const docRef = projectDb.collection(collection).doc(id);
-            const doc = await docRef.get();
+            // Aggregates cannot leave out denied documents one by one, so a collection group must be readable throughout
+            if (collectionGroup) {
+                assertCollectionGroupAccess(policy, policyProject(projectId), 'read', normalizePath(collection));
+            } else {
+                assertAccess(policy, policyProject(projectId), 'read', normalizePath(collection));
+            }
             
-            if (!doc.exists) {
-                return {
-                    content: [{ 
-                        type: "text", 
-                        text: JSON.stringify({ error: "Document not found" }, null, 2) 
-                    }]
-                };
+            const query = applyFilters(collectionQuery(projectDb, collection, collectionGroup), filters, where);
+            
+            const spec: FirebaseFirestore.AggregateSpec = {};
+            for (const aggregation of aggregations) {
+                if (aggregation.type === 'count') {
+                    spec[aggregation.alias] = admin.firestore.AggregateField.count();
+                } else if (aggregation.type === 'sum') {
+                    spec[aggregation.alias] = admin.firestore.AggregateField.sum(aggregation.field!);
+                } else {
+                    spec[aggregation.alias] = admin.firestore.AggregateField.average(aggregation.field!);
+                }
             }
             
-            // Transform data to handle timestamp conversion properly
-            const data = transformTimestamps(doc.data());
+            const snapshot = await query.aggregate(spec).get();
             
             return {
                 content: [{ 
                     type: "text", 
-                    text: JSON.stringify({ 
-                        id: doc.id, 
-                        ...data 
+                    text: JSON.stringify({
+                        collection: normalizePath(collection),
+                        collectionGroup,
+                        results: encode(snapshot.data())
                     }, null, 2) 
                 }]
             };
         }
-        else if (name === "createDocument") {
-            const { collection, data, id, project } = CreateDocumentSchema.parse(args);
+        else if (name === "vectorSearch") {
+            const {
+                collection, collectionGroup, filters, where, vectorField, queryVector, distanceMeasure, limit,
+                distanceThreshold, distanceResultField, select, project, database, ...output
+            } = VectorSearchSchema.parse(args);
             
             // Get the Firestore instance for the specified project or default
             const projectId = project || defaultProject;
-            const projectDb = firestoreInstances[projectId] || db;
+            const projectDb = projectFirestore(projectId, database);
             
             if (!projectDb) {
-                return {
-                    content: [{ 
-                        type: "text", 
-                        text: JSON.stringify({ error: `Project '${projectId}' not found or not initialized` }, null, 2) 
-                    }]
-                };
+                return toolError({ error: projectNotFoundMessage(projectId, database) });
             }
             
-            // Transform input data to convert timestamp-like objects to real Firestore timestamps
-            const transformedData = transformTimestamps(data);
-            
-            let docRef;
-            let result;
+            assertAccess(policy, policyProject(projectId), 'read', normalizePath(collection));
             
-            if (id) {
-                docRef = projectDb.collection(collection).doc(id);
-                await docRef.set(transformedData);
-                result = { id, ...transformedData };
-            } else {
-                docRef = await projectDb.collection(collection).add(transformedData);
-                result = { id: docRef.id, ...transformedData };
+            // Filters narrow the candidates before the nearest neighbors are found, and need a composite vector index
+            let query = applyFilters(collectionQuery(projectDb, collection, collectionGroup), filters, where);
+            if (select) {
+                query = query.select(...select);
             }
+            const vectorQuery = query.findNearest({
+                vectorField,
+                queryVector,
+                limit,
+                distanceMeasure,
+                ...(distanceThreshold !== undefined ? { distanceThreshold } : {}),
+                ...(distanceResultField ? { distanceResultField } : {})
+            });
+            
+            const querySnapshot = await vectorQuery.get();
+            
+            // Collection groups span many parent paths, so drop results from collections the policy denies
+            const readableDocs = querySnapshot.docs.filter(doc =>
+                !collectionGroup || !accessDeniedReason(policy, policyProject(projectId), 'read', doc.ref.parent.path)
+            );
+            
+            // Results come nearest first
+            const documents = readableDocs.map(doc => documentResult(doc, collectionGroup ? { path: doc.ref.path } : {}));
             
             return {
                 content: [{ 
                     type: "text", 
-                    text: JSON.stringify(result, null, 2) 
+                    text: documentsResponse(documents, documents => ({
+                        documents,
+                        ...(readableDocs.length < querySnapshot.size
+                            ? { omitted: querySnapshot.size - readableDocs.length, omittedReason: "Denied by collection policy" }
+                            : {})
+                    }), outputOptions(output)) 
                 }]
             };
         }
-        else if (name === "updateDocument") {
-            const { collection, id, data, merge, project } = UpdateDocumentSchema.parse(args);
+        else if (name === "batchWrite") {
+            const { operations, dryRun, project, database } = BatchWriteSchema.parse(args);
             
             // Get the Firestore instance for the specified project or default
             const projectId = project || defaultProject;
-            const projectDb = firestoreInstances[projectId] || db;
+            const projectDb = projectFirestore(projectId, database);
             
             if (!projectDb) {
-                return {
-                    content: [{ 
-                        type: "text", 
-                        text: JSON.stringify({ error: `Project '${projectId}' not found or not initialized` }, null, 2) 
-                    }]
-                };
+                return toolError({ error: projectNotFoundMessage(projectId, database) });
             }
             
-            const docRef = projectDb.collection(collection).doc(id);
-            const doc = await docRef.get();
+            for (const operation of operations) {
+                assertAccess(policy, policyProject(projectId), operation.type === 'delete' ? 'delete' : 'write',
+                    writeOperationCollectionPath(operation));
+            }
             
-            if (!doc.exists) {
+            const docRefs = operations.map(operation => writeOperationRef(projectDb, operation));
+            
+            if (dryRun) {
+                const uniqueRefs = [...new Map(docRefs.map(docRef => [docRef.path, docRef])).values()];
+                const snapshots = await projectDb.getAll(...uniqueRefs);
+                const previews = await previewWriteOperations(operations, docRefs, new Map(snapshots.map(snapshot => [snapshot.ref.path, snapshot])), schemaRegistry(projectId, projectDb));
+                
                 return {
                     content: [{ 
                         type: "text", 
-                        text: JSON.stringify({ error: "Document not found" }, null, 2) 
+                        text: JSON.stringify({
+                            dryRun: true,
+                            wouldSucceed: previews.every(preview => !preview.error),
+                            operations: previews
+                        }, null, 2) 
                     }]
                 };
             }
             
-            // Transform input data to convert timestamp-like objects to real Firestore timestamps
-            const transformedData = transformTimestamps(data);
+            // Updates must target existing documents, like updateDocument. They and the documents with preconditions
+            // are read in a transaction, so none of them can change or be deleted before the commit
+            const readRefs = docRefs.filter((_, index) => operations[index].type === 'update' || hasWritePrecondition(operations[index]));
             
-            await docRef.set(transformedData, { merge });
-            
-            // Get the updated document
-            const updatedDoc = await docRef.get();
+            if (readRefs.length > 0) {
+                const missing = await projectDb.runTransaction(async (transaction) => {
+                    const uniqueRefs = [...new Map(readRefs.map(docRef => [docRef.path, docRef])).values()];
+                    const snapshots = await transaction.getAll(...uniqueRefs);
+                    const snapshotsByPath = new Map(snapshots.map(snapshot => [snapshot.ref.path, snapshot]));
+                    
+                    const conflicts = operations.flatMap((operation, index) => {
+                        const conflict = hasWritePrecondition(operation) ? writeConflict(snapshotsByPath.get(docRefs[index].path)!, operation) : null;
+                        return conflict ? [conflict] : [];
+                    });
+                    if (conflicts.length > 0) {
+                        throw new WriteConflictError(conflicts);
+                    }
+                    
+                    const updatePaths = new Set(docRefs.filter((_, index) => operations[index].type === 'update').map(docRef => docRef.path));
+                    const missing = snapshots.filter(snapshot => !snapshot.exists && updatePaths.has(snapshot.ref.path)).map(snapshot => snapshot.ref.path);
+                    if (missing.length > 0) {
+                        return missing;
+                    }
+                    
+                    // Validate the documents the batch leaves behind; updates build on the documents just read
+                    const { documents } = simulateWriteOperations(operations, docRefs, snapshotsByPath);
+                    await assertValidDocuments(schemaRegistry(projectId, projectDb), documents);
+                    
+                    operations.forEach((operation, index) => applyWriteOperation(transaction, docRefs[index], operation));
+                    return [];
+                });
+                if (missing.length > 0) {
+                    return toolError({ error: "Document not found", paths: missing });
+                }
+            } else {
+                // Validate the documents the batch leaves behind
+                const { documents } = simulateWriteOperations(operations, docRefs, new Map());
+                await assertValidDocuments(schemaRegistry(projectId, projectDb), documents);
+                
+                const batch = projectDb.batch();
+                operations.forEach((operation, index) => applyWriteOperation(batch, docRefs[index], operation));
+                await batch.commit();
+            }
             
             return {
                 content: [{ 
                     type: "text", 
-                    text: JSON.stringify({ 
-                        id: updatedDoc.id, 
-                        ...updatedDoc.data() 
+                    text: JSON.stringify({
+                        success: true,
+                        message: `Committed ${operations.length} operations in project ${projectId}`,
+                        operations: operations.map((operation, index) => ({
+                            type: operation.type,
+                            id: docRefs[index].id,
+                            path: docRefs[index].path
+                        }))
                     }, null, 2) 
                 }]
             };
         }
-        else if (name === "deleteDocument") {
-            const { collection, id, project } = CollectionDocumentSchema.parse(args);
+        else if (name === "runTransaction") {
+            const { reads, preconditions, operations, dryRun, project, database } = RunTransactionSchema.parse(args);
+            
+            // Get the Firestore instance for the specified project or default
+            const projectId = project || defaultProject;
+            const projectDb = projectFirestore(projectId, database);
+            
+            if (!projectDb) {
+                return toolError({ error: projectNotFoundMessage(projectId, database) });
+            }
             
-            if (!id) {
+            for (const target of [...(reads || []), ...(preconditions || [])]) {
+                assertAccess(policy, policyProject(projectId), 'read',
+                    parentCollectionPath(resolveDocumentPath(target.collection, target.id, target.path)!));
+            }
+            for (const operation of operations) {
+                assertAccess(policy, policyProject(projectId), operation.type === 'delete' ? 'delete' : 'write',
+                    writeOperationCollectionPath(operation));
+            }
+            
+            const docRefs = operations.map(operation => writeOperationRef(projectDb, operation));
+            
+            // Read every document that is returned, checked by a precondition or updated
+            const readPaths = new Set<string>([
+                ...(reads || []).map(read => resolveDocumentPath(read.collection, read.id, read.path)!),
+                ...(preconditions || []).map(condition => resolveDocumentPath(condition.collection, condition.id, condition.path)!),
+                ...docRefs.filter((_, index) => operations[index].type === 'update' || hasWritePrecondition(operations[index])).map(docRef => docRef.path)
+            ]);
+            
+            if (dryRun) {
+                // Read outside a transaction: the preview reflects the current data, not a locked snapshot
+                const refs = [...new Set([...readPaths, ...docRefs.map(docRef => docRef.path)])].map(readPath => projectDb.doc(readPath));
+                const snapshots = await projectDb.getAll(...refs);
+                const snapshotsByPath = new Map(snapshots.map(snapshot => [snapshot.ref.path, snapshot]));
+                const failures = preconditionFailures(preconditions, snapshotsByPath);
+                const previews = await previewWriteOperations(operations, docRefs, snapshotsByPath, schemaRegistry(projectId, projectDb));
+                
                 return {
                     content: [{ 
                         type: "text", 
-                        text: JSON.stringify({ error: "Document ID is required" }, null, 2) 
+                        text: JSON.stringify({
+                            dryRun: true,
+                            wouldSucceed: failures.length === 0 && previews.every(preview => !preview.error),
+                            preconditionFailures: failures,
+                            operations: previews
+                        }, null, 2) 
                     }]
                 };
             }
             
-            // Get the Firestore instance for the specified project or default
-            const projectId = project || defaultProject;
-            const projectDb = firestoreInstances[projectId] || db;
-            
-            if (!projectDb) {
+            try {
+                const documents = await projectDb.runTransaction(async (transaction) => {
+                    const refs = [...readPaths].map(readPath => projectDb.doc(readPath));
+                    const snapshots = refs.length > 0 ? await transaction.getAll(...refs) : [];
+                    const snapshotsByPath = new Map(snapshots.map(snapshot => [snapshot.ref.path, snapshot]));
+                    
+                    const conflicts = operations.flatMap((operation, index) => {
+                        const conflict = hasWritePrecondition(operation) ? writeConflict(snapshotsByPath.get(docRefs[index].path)!, operation) : null;
+                        return conflict ? [conflict] : [];
+                    });
+                    if (conflicts.length > 0) {
+                        throw new WriteConflictError(conflicts);
+                    }
+                    
+                    const failures = preconditionFailures(preconditions, snapshotsByPath);
+                    
+                    // Updates must target existing documents, like updateDocument
+                    operations.forEach((operation, index) => {
+                        if (operation.type === 'update' && !snapshotsByPath.get(docRefs[index].path)!.exists) {
+                            failures.push({ path: docRefs[index].path, operator: 'exists', actual: "document does not exist" });
+                        }
+                    });
+                    
+                    if (failures.length > 0) {
+                        throw new PreconditionFailedError(failures);
+                    }
+                    
+                    await assertValidDocuments(schemaRegistry(projectId, projectDb), simulateWriteOperations(operations, docRefs, snapshotsByPath).documents);
+                    
+                    operations.forEach((operation, index) => applyWriteOperation(transaction, docRefs[index], operation));
+                    
+                    return (reads || []).map(read => {
+                        const snapshot = snapshotsByPath.get(resolveDocumentPath(read.collection, read.id, read.path)!)!;
+                        return snapshot.exists
+                            ? documentResult(snapshot, { path: snapshot.ref.path })
+                            : { id: snapshot.id, path: snapshot.ref.path, exists: false };
+                    });
+                });
+                
                 return {
                     content: [{ 
                         type: "text", 
-                        text: JSON.stringify({ error: `Project '${projectId}' not found or not initialized` }, null, 2) 
+                        text: JSON.stringify({
+                            success: true,
+                            message: `Committed ${operations.length} operations in project ${projectId}`,
+                            documents,
+                            operations: operations.map((operation, index) => ({
+                                type: operation.type,
+                                id: docRefs[index].id,
+                                path: docRefs[index].path
+                            }))
+                        }, null, 2) 
                     }]
                 };
+            } catch (error) {
+                if (error instanceof PreconditionFailedError) {
+                    return toolError({
+                        error: "Precondition failed",
+                        message: "No writes were applied",
+                        failures: error.failures
+                    });
+                }
+                throw error;
             }
+        }
+        else if (name === "deleteRecursive") {
+            const { collection, id, path: documentPath, confirmationToken, maxDocuments, project, database } = DeleteRecursiveSchema.parse(args);
+            const docPath = resolveDocumentPath(collection, id, documentPath);
             
-            const docRef = projectDb.collection(collection).doc(id);
-            const doc = await docRef.get();
+            if (!docPath && !collection) {
+                return toolError({ error: "Either a document path, a collection and document ID, or a collection is required" }, "invalid");
+            }
             
-            if (!doc.exists) {
+            // Get the Firestore instance for the specified project or default
+            const projectId = project || defaultProject;
+            const projectDb = projectFirestore(projectId, database);
+            
+            if (!projectDb) {
+                return toolError({ error: projectNotFoundMessage(projectId, database) });
+            }
+            
+            const targetPath = docPath || normalizePath(collection!);
+            const ref = docPath ? projectDb.doc(docPath) : projectDb.collection(targetPath);
+            assertAccess(policy, policyProject(projectId), 'delete', docPath ? parentCollectionPath(docPath) : targetPath);
+            
+            // Every collection below the target must allow deletes too
+            const count = await countDeletion(ref, maxDocuments,
+                collectionPath => assertAccess(policy, policyProject(projectId), 'delete', collectionPath));
+            
+            if (count.exceeded) {
+                return toolError({
+                    error: "Too many documents",
+                    message: `More than ${maxDocuments} documents would be deleted at ${targetPath}. Raise maxDocuments (at most ${RECURSIVE_DELETE_MAX_DOCUMENTS}) or delete smaller parts first.`,
+                    maxDocuments
+                });
+            }
+            
+            const target = { project: policyProject(projectId), database, path: targetPath };
+            const preview = {
+                path: targetPath,
+                documents: count.documents,
+                collections: count.collections,
+                maxDocuments,
+                ...issueConfirmationToken(target, count.documents)
+            };
+            
+            if (!confirmationToken) {
+                const { token, ...details } = preview;
                 return {
                     content: [{ 
                         type: "text", 
-                        text: JSON.stringify({ error: "Document not found" }, null, 2) 
+                        text: JSON.stringify({
+                            preview: true,
+                            ...details,
+                            confirmationToken: token,
+                            message: `Nothing was deleted. Call deleteRecursive again with this confirmationToken to delete ${count.documents} documents.`
+                        }, null, 2) 
                     }]
                 };
             }
             
-            await docRef.delete();
+            let previewedDocuments: number;
+            try {
+                previewedDocuments = verifyConfirmationToken(confirmationToken, target);
+            } catch (error) {
+                return toolError({ error: "Invalid confirmation token", message: (error as Error).message }, "invalid");
+            }
+            
+            // Documents added since the preview were not confirmed
+            if (count.documents > previewedDocuments) {
+                const { token, ...details } = preview;
+                return toolError({
+                    error: "Changed since preview",
+                    message: `${count.documents} documents would now be deleted, but ${previewedDocuments} were previewed. Nothing was deleted; confirm the new count with this confirmationToken.`,
+                    ...details,
+                    confirmationToken: token
+                });
+            }
+            
+            // Report progress about every 1% of the previewed documents
+            const progressStep = Math.max(1, Math.ceil(count.documents / 100));
+            // At most the counted documents are deleted, even if more are added meanwhile
+            const { deleted, stopped } = await deleteRecursively(ref, count.documents,
+                collectionPath => assertAccess(policy, policyProject(projectId), 'delete', collectionPath),
+                deletedSoFar => {
+                    if (deletedSoFar % progressStep === 0) {
+                        reportProgress(deletedSoFar, count.documents);
+                    }
+                });
+            reportProgress(deleted, count.documents);
+            
+            if (stopped) {
+                return toolError({
+                    error: "Changed during delete",
+                    message: `Documents were added at ${targetPath} while it was being deleted. Deleting stopped after the ${count.documents} confirmed documents; preview again to delete the rest.`,
+                    path: targetPath,
+                    deleted
+                });
+            }
             
             return {
                 content: [{ 
                     type: "text", 
-                    text: JSON.stringify({ 
-                        success: true, 
-                        message: `Document ${id} deleted from ${collection} in project ${projectId}` 
+                    text: JSON.stringify({
+                        success: true,
+                        message: `Deleted ${targetPath} recursively in project ${projectId}`,
+                        path: targetPath,
+                        deleted
                     }, null, 2) 
                 }]
             };
         }
-        else if (name === "queryDocuments") {
-            const { collection, filters, orderBy, limit, project } = QueryDocumentsSchema.parse(args);
+        else if (name === "exportCollection") {
+            const { collection, file, format, includeSubcollections, limit, project, database } = ExportCollectionSchema.parse(args);
             
             // Get the Firestore instance for the specified project or default
             const projectId = project || defaultProject;
-            const projectDb = firestoreInstances[projectId] || db;
+            const projectDb = projectFirestore(projectId, database);
             
             if (!projectDb) {
-                return {
-                    content: [{ 
-                        type: "text", 
-                        text: JSON.stringify({ error: `Project '${projectId}' not found or not initialized` }, null, 2) 
-                    }]
-                };
+                return toolError({ error: projectNotFoundMessage(projectId, database) });
             }
             
-            let query: FirebaseFirestore.Query<FirebaseFirestore.DocumentData> = projectDb.collection(collection);
+            const collectionPath = normalizePath(collection);
+            assertAccess(policy, policyProject(projectId), 'read', collectionPath);
             
-            // Apply filters
-            if (filters && filters.length > 0) {
-                for (const filter of filters) {
-                    query = query.where(filter.field, filter.operator as any, filter.value);
-                }
+            let filePath: string;
+            let fileFormat: TransferFormat;
+            try {
+                filePath = resolveTransferFile(transferDir, file);
+                fileFormat = transferFormat(file, format);
+            } catch (error) {
+                return toolError({ error: "Invalid file", message: (error as Error).message }, "invalid");
             }
             
-            // Apply ordering
-            if (orderBy && orderBy.length > 0) {
-                for (const order of orderBy) {
-                    query = query.orderBy(order.field, order.direction);
-                }
+            const writer = await openRecordWriter(filePath, fileFormat);
+            
+            // Subcollections the policy does not allow reading are left out, as listSubcollections hides them
+            let result;
+            try {
+                result = await exportCollection(projectDb.collection(collectionPath), writer, data => encodeValue(data), {
+                    includeSubcollections,
+                    limit,
+                    checkCollection: subcollectionPath => !accessDeniedReason(policy, policyProject(projectId), 'read', subcollectionPath),
+                    onProgress: exported => reportProgress(exported),
+                });
+                await writer.close();
+            } catch (error) {
+                // Only a complete export replaces the file
+                await writer.abort();
+                throw error;
             }
             
-            // Apply limit
-            if (limit) {
-                query = query.limit(limit);
+            return {
+                content: [{ 
+                    type: "text", 
+                    text: JSON.stringify({
+                        success: true,
+                        message: `Exported ${result.documents} documents from ${collectionPath} in project ${projectId}`,
+                        file: path.relative(transferDir, filePath),
+                        format: fileFormat,
+                        ...result
+                    }, null, 2) 
+                }]
+            };
+        }
+        else if (name === "importCollection") {
+            const { collection, file, format, onConflict, dryRun, project, database } = ImportCollectionSchema.parse(args);
+            
+            // Get the Firestore instance for the specified project or default
+            const projectId = project || defaultProject;
+            const projectDb = projectFirestore(projectId, database);
+            
+            if (!projectDb) {
+                return toolError({ error: projectNotFoundMessage(projectId, database) });
             }
             
-            const querySnapshot = await query.get();
-            const documents = querySnapshot.docs.map(doc => {
-                // Transform data to handle timestamp conversion properly
-                const data = transformTimestamps(doc.data());
-                return {
-                    id: doc.id,
-                    ...data
-                };
+            const collectionPath = normalizePath(collection);
+            assertAccess(policy, policyProject(projectId), 'write', collectionPath);
+            
+            let filePath: string;
+            let fileFormat: TransferFormat;
+            try {
+                filePath = resolveTransferFile(transferDir, file);
+                fileFormat = transferFormat(file, format);
+            } catch (error) {
+                return toolError({ error: "Invalid file", message: (error as Error).message }, "invalid");
+            }
+            if (!fs.existsSync(filePath)) {
+                return toolError({ error: "File not found", message: `${file} does not exist in the export directory ${transferDir}` });
+            }
+            
+            // Records may reach into subcollections, each of which must allow writes
+            const result = await importRecords(projectDb.collection(collectionPath), readRecords(filePath, fileFormat), {
+                onConflict,
+                dryRun,
+                checkCollection: recordCollectionPath => assertAccess(policy, policyProject(projectId), 'write', recordCollectionPath),
+                decode: data => decodeValue(data, projectDb),
+                check: async (docRef, data) => {
+                    const registry = schemaRegistry(projectId, projectDb);
+                    if (!await registry.hasSchemas(docRef.parent.path)) {
+                        return null;
+                    }
+                    // A merge is validated on the merged result, so the existing document is read first
+                    const existing = onConflict === 'merge' ? await docRef.get() : null;
+                    const errors = await registry.validate(docRef.parent.path, mergeData(existing?.exists ? existing.data()! : null, data));
+                    return errors.length > 0
+                        ? `Validation failed: ${errors.map(error => `${error.field || "document"} ${error.message}`).join(", ")}`
+                        : null;
+                },
+                onProgress: processed => reportProgress(processed),
             });
             
+            const { error, ...counts } = result;
+            if (error) {
+                return toolError({
+                    error: "Import stopped",
+                    message: dryRun ? error : `${error}. Records before this point were imported.`,
+                    ...(dryRun ? { dryRun: true } : {}),
+                    ...counts
+                });
+            }
+            
             return {
                 content: [{ 
                     type: "text", 
-                    text: JSON.stringify(documents, null, 2) 
+                    text: JSON.stringify({
+                        ...(dryRun ? { dryRun: true } : { success: true }),
+                        message: dryRun
+                            ? `Nothing was imported. ${counts.written} documents would be written and ${counts.skipped} skipped in ${collectionPath}.`
+                            : `Imported ${counts.written} documents into ${collectionPath} in project ${projectId}`,
+                        onConflict,
+                        ...counts
+                    }, null, 2) 
                 }]
             };
         }
         else if (name === "listCollections") {
-            const { project } = ListCollectionsSchema.parse(args);
+            const { project, database } = ListCollectionsSchema.parse(args);
             
             // Get the Firestore instance for the specified project or default
             const projectId = project || defaultProject;
-            const projectDb = firestoreInstances[projectId] || db;
+            const projectDb = projectFirestore(projectId, database);
             
             if (!projectDb) {
-                return {
-                    content: [{ 
-                        type: "text", 
-                        text: JSON.stringify({ error: `Project '${projectId}' not found or not initialized` }, null, 2) 
-                    }]
-                };
+                return toolError({ error: projectNotFoundMessage(projectId, database) });
             }
             
+            assertAccess(policy, policyProject(projectId), 'read');
+            
             const collections = await projectDb.listCollections();
-            const collectionNames = collections.map(collection => collection.id);
+            // Hide collections the policy does not allow reading
+            const collectionNames = collections
+                .map(collection => collection.id)
+                .filter(collectionId => !accessDeniedReason(policy, policyProject(projectId), 'read', collectionId));
+            
+            return {
+                content: [{ 
+                    type: "text", 
+                    text: JSON.stringify(collectionNames, null, 2) 
+                }]
+            };
+        }
+        else if (name === "listSubcollections") {
+            const { collection, id, path: documentPath, project, database } = CollectionDocumentSchema.parse(args);
+            const docPath = resolveDocumentPath(collection, id, documentPath);
+            
+            if (!docPath) {
+                return toolError({ error: "Either a document path or a collection and document ID is required" }, "invalid");
+            }
+            
+            // Get the Firestore instance for the specified project or default
+            const projectId = project || defaultProject;
+            const projectDb = projectFirestore(projectId, database);
+            
+            if (!projectDb) {
+                return toolError({ error: projectNotFoundMessage(projectId, database) });
+            }
+            
+            assertAccess(policy, policyProject(projectId), 'read', parentCollectionPath(docPath));
+            
+            // Subcollections can exist under documents that have no fields of their own,
+            // so list them without checking that the parent document exists
+            const collections = await projectDb.doc(docPath).listCollections();
+            // Hide subcollections the policy does not allow reading
+            const collectionNames = collections
+                .map(collection => collection.id)
+                .filter(collectionId => !accessDeniedReason(policy, policyProject(projectId), 'read', `${docPath}/${collectionId}`));
             
             return {
                 content: [{ 
@@ -752,6 +3382,57 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
                 }]
             };
         }
+        else if (name === "describeCollection") {
+            const { collection, sampleSize, all, schemaFormat, project, database } = DescribeCollectionSchema.parse(args);
+            
+            // Get the Firestore instance for the specified project or default
+            const projectId = project || defaultProject;
+            const projectDb = projectFirestore(projectId, database);
+            
+            if (!projectDb) {
+                return toolError({ error: projectNotFoundMessage(projectId, database) });
+            }
+            
+            const collectionPath = normalizePath(collection);
+            assertAccess(policy, policyProject(projectId), 'read', collectionPath);
+            
+            const collectionRef = projectDb.collection(collectionPath);
+            const [snapshot, countSnapshot] = await Promise.all([
+                collectionRef.limit(all ? DESCRIBE_MAX_DOCUMENTS : sampleSize).get(),
+                collectionRef.count().get()
+            ]);
+            const root = inferSchema(snapshot.docs.map(doc => doc.data()));
+            
+            // Count the sampled documents each subcollection appears under, hiding those the policy does not allow reading
+            const subcollections = new Map<string, number>();
+            for (let index = 0; index < snapshot.docs.length; index += DESCRIBE_LIST_CONCURRENCY) {
+                const docs = snapshot.docs.slice(index, index + DESCRIBE_LIST_CONCURRENCY);
+                const collectionLists = await Promise.all(docs.map(doc => doc.ref.listCollections()));
+                for (const subcollection of collectionLists.flat()) {
+                    if (!accessDeniedReason(policy, policyProject(projectId), 'read', subcollection.path)) {
+                        subcollections.set(subcollection.id, (subcollections.get(subcollection.id) || 0) + 1);
+                    }
+                }
+            }
+            
+            const documentCount = countSnapshot.data().count;
+            return {
+                content: [{ 
+                    type: "text", 
+                    text: JSON.stringify({
+                        collection: collectionPath,
+                        documentCount,
+                        sampled: snapshot.size,
+                        complete: snapshot.size >= documentCount,
+                        fields: profileFields(root),
+                        subcollections: [...subcollections]
+                            .sort(([a], [b]) => a.localeCompare(b))
+                            .map(([name, documents]) => ({ name, documents })),
+                        ...(schemaFormat ? { schemaFormat, schema: renderSchema(root, collectionRef.id, schemaFormat) } : {})
+                    }, null, 2) 
+                }]
+            };
+        }
         else if (name === "listProjects") {
             EmptySchema.parse(args);
             
@@ -766,27 +3447,75 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
                         projects,
                         defaultProject,
                         currentEnv: process.env.GOOGLE_CLOUD_PROJECTS || "Not set",
+                        configSource: config.source,
+                        // Databases tools may select with their "database" argument, the default database first
+                        databases: Object.fromEntries(projects.map(projectId => [projectId, Object.keys(databaseInstances[projectId])])),
+                        // Emulated projects mapped to their emulator host
+                        emulated: Object.fromEntries(projectHealth.flatMap(({ project, status }) =>
+                            status === "ready" && project.credentials.type === "emulator" ? [[project.name, project.credentials.host]] : []
+                        )),
+                        // Every configured project, including those that failed to initialize
+                        health: projectHealth.map(({ project, status, error }) => ({
+                            name: project.name,
+                            projectId: project.projectId,
+                            databases: project.databases,
+                            credentials: describeCredentials(project.credentials),
+                            readOnly: project.readOnly,
+                            status,
+                            ...(error ? { error } : {})
+                        })),
+                    }, null, 2) 
+                }]
+            };
+        }
+        else if (name === "getAuditLog") {
+            const query = GetAuditLogSchema.parse(args);
+            
+            assertAccess(policy, policyProject(query.project || defaultProject), 'read');
+            
+            if (!auditLog.filePath) {
+                return toolError({ error: "Audit log file is disabled (FIRESTORE_AUDIT_LOG)" });
+            }
+            
+            // Entries of projects the caller may not read are left out; getAuditLog's own entries belong to the default project
+            const entries = await auditLog.query({
+                ...query,
+                include: record => !accessDeniedReason(policy, record.project || defaultProject, 'read')
+            });
+            
+            return {
+                content: [{ 
+                    type: "text", 
+                    text: JSON.stringify({
+                        message: `Found ${entries.length} audit log entries`,
+                        entries
                     }, null, 2) 
                 }]
             };
         }
         else if (name === "listPrompts") {
-            const { collection, limit, project } = ListPromptsSchema.parse(args);
+            const { collection: collectionArg = promptsCollection, limit, pageToken, project, database } = ListPromptsSchema.parse(args);
+            const collection = normalizePath(collectionArg);
             
-            // Get the Firestore instance for the specified project or default
-            const projectId = project || defaultProject;
-            const projectDb = firestoreInstances[projectId] || db;
+            // Get the Firestore instance for the specified project or the prompts project
+            const projectId = project || promptsProject;
+            const projectDb = projectFirestore(projectId, database);
             
             if (!projectDb) {
-                return {
-                    content: [{ 
-                        type: "text", 
-                        text: JSON.stringify({ error: `Project '${projectId}' not found or not initialized` }, null, 2) 
-                    }]
-                };
+                return toolError({ error: projectNotFoundMessage(projectId, database) });
             }
             
-            let query: FirebaseFirestore.Query<FirebaseFirestore.DocumentData> = projectDb.collection(collection);
+            assertAccess(policy, policyProject(projectId), 'read', collection);
+            
+            // Page through prompts in document ID order
+            const fingerprint = queryFingerprint({ projectId, database, collection });
+            let query: FirebaseFirestore.Query<FirebaseFirestore.DocumentData> = projectDb.collection(collection)
+                .orderBy(admin.firestore.FieldPath.documentId());
+            
+            if (pageToken) {
+                const token = decodePageToken(pageToken, fingerprint);
+                query = query.startAfter(projectDb.doc(token.path));
+            }
             
             // Apply limit if specified
             if (limit) {
@@ -807,21 +3536,17 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
                 };
             }
             
-            const prompts = querySnapshot.docs.map(doc => {
-                // Transform data to handle timestamp conversion properly
-                const data = transformTimestamps(doc.data());
-                return {
-                    id: doc.id,
-                    ...data
-                };
-            });
+            const prompts = querySnapshot.docs.map(doc => documentResult(doc));
             
             return {
                 content: [{ 
                     type: "text", 
                     text: JSON.stringify({
                         message: `Found ${prompts.length} prompts in collection '${collection}'`,
-                        prompts
+                        prompts,
+                        nextPageToken: limit && querySnapshot.size === limit
+                            ? nextPageToken(fingerprint, [], querySnapshot.docs[querySnapshot.docs.length - 1])
+                            : null
                     }, null, 2) 
                 }]
             };
@@ -830,35 +3555,118 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
             throw new Error(`Unknown tool: ${name}`);
         }
     } catch (error) {
+        if (error instanceof AccessDeniedError) {
+            return toolError({
+                error: "Permission denied",
+                code: "PERMISSION_DENIED",
+                retryable: false,
+                tool: name,
+                project: error.projectId,
+                permission: error.permission,
+                ...(error.collection !== undefined ? { collection: error.collection } : {}),
+                message: error.message
+            }, "denied");
+        }
+        
+        if (error instanceof WriteConflictError) {
+            return toolError({
+                error: "Conflict",
+                code: "CONFLICT",
+                retryable: false,
+                message: "No writes were applied: a document changed since it was read. Read it again and retry with its new updateTime.",
+                conflicts: error.conflicts
+            }, "conflict");
+        }
+        
+        if (error instanceof SchemaValidationError) {
+            return toolError({
+                error: "Validation failed",
+                code: "VALIDATION_FAILED",
+                retryable: false,
+                message: "No writes were applied: the documents would not match their collection's schema.",
+                failures: error.failures
+            }, "invalid");
+        }
+        
         if (error instanceof z.ZodError) {
-            return {
-                content: [{ 
-                    type: "text", 
-                    text: JSON.stringify({
-                        error: "Invalid arguments",
-                        details: error.errors.map((e) => `${e.path.join(".")}: ${e.message}`).join(", ")
-                    }, null, 2)
-                }]
-            };
+            return toolError({
+                error: "Invalid arguments",
+                code: "INVALID_ARGUMENT",
+                retryable: false,
+                details: error.errors.map((e) => `${e.path.join(".")}: ${e.message}`).join(", ")
+            }, "invalid");
         }
         
-        return {
-            content: [{ 
-                type: "text", 
-                text: JSON.stringify({
-                    error: "Internal server error",
-                    message: (error as Error).message
-                }, null, 2)
-            }]
-        };
+        // Input the tools or the Firestore SDK could not use, such as an unknown tagged value or a stale page token
+        if (isInvalidArgumentError(error)) {
+            return toolError({
+                error: "Invalid arguments",
+                code: "INVALID_ARGUMENT",
+                retryable: false,
+                message: error.message
+            }, "invalid");
+        }
+        
+        // Errors reported by Firestore, such as a query that needs a composite index
+        if (isFirestoreError(error)) {
+            return toolError(describeFirestoreError(error));
+        }
+        
+        return toolError({
+            error: "Internal server error",
+            code: "INTERNAL",
+            retryable: false,
+            message: (error as Error).message
+        });
     }
-});
+}
+
+// Create an MCP server with every handler registered. stdio runs one; the HTTP transport creates one per session,
+// all sharing the Firestore clients initialized above.
+function createServer(): Server {
+    const server = new Server(
+        {
+            name: "firestore",
+            version: "1.0.0"
+        },
+        {
+            capabilities: {
+                tools: {
+                    listChanged: false
+                },
+                resources: {
+                    listChanged: false
+                },
+                prompts: {
+                    listChanged: false
+                }
+            }
+        }
+    );
+    
+    server.setRequestHandler(ListResourcesRequestSchema, listResources);
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, listResourceTemplates);
+    server.setRequestHandler(ReadResourceRequestSchema, readResource);
+    server.setRequestHandler(ListPromptsRequestSchema, listPrompts);
+    server.setRequestHandler(GetPromptRequestSchema, getPrompt);
+    server.setRequestHandler(ListToolsRequestSchema, listTools);
+    server.setRequestHandler(CallToolRequestSchema, request => handleCallTool(request, progressReporter(server, request)));
+    
+    return server;
+}
 
 // Start the server
 async function main() {
     try {
+        if (process.env.FIRESTORE_TRANSPORT === "http") {
+            const options = loadHttpOptions(createServer);
+            await startHttpServer(options);
+            console.error(`Firestore MCP Server listening on http://${options.host}:${options.port}/mcp (Server-Sent Events on /sse)`);
+            return;
+        }
+        
         const transport = new StdioServerTransport();
-        await server.connect(transport);
+        await createServer().connect(transport);
         console.error("Firestore MCP Server running on stdio");
     } catch (error) {
         console.error("Error during startup:", error);
@@ -0,0 +1,123 @@
+/**
+ * Response size controls for tools that return documents: compact JSON and a size budget
+ *
+ * A budget shortens the longest strings and arrays in the documents' data until the response fits, marking each cut:
+ * - a string:  { "__type": "truncated", "value": "the first characters", "length": 20480 }
+ * - an array:  its first items, followed by { "__type": "truncated", "omitted": 250 }
+ * Document IDs, paths, version times and the rest of the response are never cut. The response then carries
+ * "truncated" with the number of strings and arrays shortened; document fields live under "data", so it cannot
+ * collide with them. Truncated values are refused as input (see encoding.ts), so a shortened document cannot be
+ * written back by mistake.
+ */
+
+export interface OutputOptions {
+    // JSON without indentation
+    compact?: boolean;
+    // Largest response, in bytes of JSON text
+    maxBytes?: number;
+}
+
+export interface Truncation {
+    maxBytes: number;
+    strings: number;
+    arrays: number;
+    // Set when the response is still over budget with every string and array at its minimum
+    hint?: string;
+}
+
+// Rough size of a token in JSON text, for budgets given in tokens
+const BYTES_PER_TOKEN = 4;
+
+// Strings and arrays are never cut below this, so timestamps, references and short values stay intact
+const MIN_STRING_LENGTH = 64;
+const MIN_ARRAY_ITEMS = 1;
+
+export function formatJson(value: any, compact?: boolean): string {
+    return compact ? JSON.stringify(value) : JSON.stringify(value, null, 2);
+}
+
+// The byte budget for a call: the smaller of maxBytes and maxTokens, if either is set
+export function budgetBytes(maxBytes?: number, maxTokens?: number): number | undefined {
+    const budgets = [maxBytes, maxTokens !== undefined ? maxTokens * BYTES_PER_TOKEN : undefined]
+        .filter((budget): budget is number => budget !== undefined);
+    return budgets.length > 0 ? Math.min(...budgets) : undefined;
+}
+
+interface Limits {
+    stringLength: number;
+    arrayItems: number;
+}
+
+// The longest string and array anywhere in a value
+function longest(value: any, limits: Limits = { stringLength: 0, arrayItems: 0 }): Limits {
+    if (typeof value === "string") {
+        limits.stringLength = Math.max(limits.stringLength, value.length);
+    } else if (Array.isArray(value)) {
+        limits.arrayItems = Math.max(limits.arrayItems, value.length);
+        value.forEach(item => longest(item, limits));
+    } else if (value && typeof value === "object") {
+        Object.values(value).forEach(item => longest(item, limits));
+    }
+    return limits;
+}
+
+function truncate(value: any, limits: Limits, counts: Truncation): any {
+    if (typeof value === "string") {
+        if (value.length <= limits.stringLength) {
+            return value;
+        }
+        counts.strings++;
+        return { __type: "truncated", value: value.slice(0, limits.stringLength), length: value.length };
+    }
+    if (Array.isArray(value)) {
+        const items = value.slice(0, limits.arrayItems).map(item => truncate(item, limits, counts));
+        if (value.length <= limits.arrayItems) {
+            return items;
+        }
+        counts.arrays++;
+        return [...items, { __type: "truncated", omitted: value.length - limits.arrayItems }];
+    }
+    if (value && typeof value === "object") {
+        return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, truncate(item, limits, counts)]));
+    }
+    return value;
+}
+
+// Only the data of a document is cut; its ID, path and version times stay whole
+function truncateDocument(document: Record<string, any>, limits: Limits, counts: Truncation): Record<string, any> {
+    return document.data === undefined ? document : { ...document, data: truncate(document.data, limits, counts) };
+}
+
+// Format a response built around documents, shortening their fields until it fits the budget
+export function documentsResponse(
+    documents: Record<string, any>[],
+    build: (documents: Record<string, any>[]) => Record<string, any>,
+    options: OutputOptions
+): string {
+    const text = formatJson(build(documents), options.compact);
+    const { maxBytes } = options;
+    if (maxBytes === undefined || Buffer.byteLength(text) <= maxBytes) {
+        return text;
+    }
+
+    // Halve the longest allowed string and array until the response fits or nothing more can be cut
+    const limits = longest(documents.map(document => document.data));
+    limits.stringLength = Math.min(limits.stringLength, maxBytes);
+    limits.arrayItems = Math.min(limits.arrayItems, maxBytes);
+    while (true) {
+        limits.stringLength = Math.max(MIN_STRING_LENGTH, Math.floor(limits.stringLength / 2));
+        limits.arrayItems = Math.max(MIN_ARRAY_ITEMS, Math.floor(limits.arrayItems / 2));
+
+        const truncation: Truncation = { maxBytes, strings: 0, arrays: 0 };
+        const truncated = documents.map(document => truncateDocument(document, limits, truncation));
+        const response = { ...build(truncated), truncated: truncation };
+        const fits = Buffer.byteLength(formatJson(response, options.compact)) <= maxBytes;
+        const exhausted = limits.stringLength === MIN_STRING_LENGTH && limits.arrayItems === MIN_ARRAY_ITEMS;
+        if (fits || exhausted) {
+            if (!fits) {
+                truncation.hint = "The response is still larger than the budget; select fewer fields or lower the limit";
+            }
+            return formatJson(response, options.compact);
+        }
+    }
+}
@@ -0,0 +1,211 @@
+/**
+ * Access policy for Firestore tools
+ *
+ * Environment variables:
+ * - FIRESTORE_READ_ONLY: "true" or "1" to refuse every write and delete, in every project
+ * - FIRESTORE_POLICY_FILE: Path to a JSON policy file with per-project permissions and collection rules
+ *   Example:
+ *   {
+ *     "readOnly": false,
+ *     "defaults": { "permissions": ["read", "write", "delete"] },
+ *     "projects": {
+ *       "prod-project": {
+ *         "permissions": ["read"],
+ *         "collections": { "allow": ["users", "orders"], "deny": ["secrets"] }
+ *       }
+ *     }
+ *   }
+ */
+
+import { z } from "zod";
+import fs from "fs";
+
+export type Permission = "read" | "write" | "delete";
+
+// Collection patterns are slash-separated collection paths in which "*" matches one segment
+// and "**" matches any number of segments, e.g. "users/*/orders"
+export const CollectionRulesSchema = z.object({
+    allow: z.array(z.string().min(1)).optional(),
+    deny: z.array(z.string().min(1)).optional(),
+});
+
+const ProjectPolicySchema = z.object({
+    permissions: z.array(z.enum(["read", "write", "delete"])).optional(),
+    collections: CollectionRulesSchema.optional(),
+});
+
+const PolicySchema = z.object({
+    readOnly: z.boolean().default(false),
+    defaults: ProjectPolicySchema.optional(),
+    projects: z.record(ProjectPolicySchema).default({}),
+});
+
+export type Policy = z.infer<typeof PolicySchema>;
+
+export type CollectionRules = z.infer<typeof CollectionRulesSchema>;
+
+// Raised when a tool call is refused by the policy
+export class AccessDeniedError extends Error {
+    constructor(
+        public readonly projectId: string,
+        public readonly permission: Permission,
+        public readonly reason: string,
+        public readonly collection?: string
+    ) {
+        super(reason);
+        this.name = "AccessDeniedError";
+    }
+}
+
+// Load the policy from FIRESTORE_POLICY_FILE and FIRESTORE_READ_ONLY
+export function loadPolicy(): Policy {
+    const policyFile = process.env.FIRESTORE_POLICY_FILE;
+    const policy = policyFile
+        ? PolicySchema.parse(JSON.parse(fs.readFileSync(policyFile, "utf8")))
+        : PolicySchema.parse({});
+
+    const readOnlyEnv = (process.env.FIRESTORE_READ_ONLY || "").trim().toLowerCase();
+    if (readOnlyEnv === "true" || readOnlyEnv === "1") {
+        policy.readOnly = true;
+    }
+
+    return policy;
+}
+
+// Match a collection path against a pattern, segment by segment
+export function collectionPatternMatches(pattern: string, collectionPath: string): boolean {
+    const patternSegments = pattern.replace(/^\/+|\/+$/g, "").split("/");
+    const pathSegments = collectionPath.replace(/^\/+|\/+$/g, "").split("/");
+
+    const matchFrom = (patternIndex: number, pathIndex: number): boolean => {
+        if (patternIndex === patternSegments.length) {
+            return pathIndex === pathSegments.length;
+        }
+        const segment = patternSegments[patternIndex];
+        if (segment === "**") {
+            for (let next = pathIndex; next <= pathSegments.length; next++) {
+                if (matchFrom(patternIndex + 1, next)) return true;
+            }
+            return false;
+        }
+        if (pathIndex === pathSegments.length) {
+            return false;
+        }
+        return (segment === "*" || segment === pathSegments[pathIndex]) && matchFrom(patternIndex + 1, pathIndex + 1);
+    };
+
+    return matchFrom(0, 0);
+}
+
+// Permissions granted in a project, before collection rules
+function projectPermissions(policy: Policy, projectId: string): Permission[] {
+    if (policy.readOnly) {
+        const permissions = policy.projects[projectId]?.permissions || policy.defaults?.permissions || ["read"];
+        return permissions.filter(permission => permission === "read");
+    }
+    return policy.projects[projectId]?.permissions || policy.defaults?.permissions || ["read", "write", "delete"];
+}
+
+// Apply a project's settings from the server configuration: a read-only project loses write and delete,
+// and its collection rules apply unless the policy file gives the project its own
+export function applyProjectSettings(
+    policy: Policy,
+    projectId: string,
+    settings: { readOnly: boolean; collections?: CollectionRules }
+): void {
+    const projectPolicy = { ...policy.projects[projectId] };
+    if (settings.readOnly) {
+        projectPolicy.permissions = projectPermissions(policy, projectId).filter(permission => permission === "read");
+    }
+    if (settings.collections && !projectPolicy.collections) {
+        projectPolicy.collections = settings.collections;
+    }
+    policy.projects[projectId] = projectPolicy;
+}
+
+// Check whether the policy grants a permission in a project, optionally for a specific collection path.
+// Returns the reason for refusal, or null if access is granted.
+export function accessDeniedReason(
+    policy: Policy,
+    projectId: string,
+    permission: Permission,
+    collectionPath?: string
+): string | null {
+    if (!projectPermissions(policy, projectId).includes(permission)) {
+        return policy.readOnly && permission !== "read"
+            ? "Server is in read-only mode"
+            : `Project '${projectId}' does not grant '${permission}' permission`;
+    }
+
+    if (collectionPath === undefined) {
+        return null;
+    }
+
+    const rules = policy.projects[projectId]?.collections || policy.defaults?.collections;
+    const deniedBy = rules?.deny?.find(pattern => collectionPatternMatches(pattern, collectionPath));
+    if (deniedBy) {
+        return `Collection '${collectionPath}' is denied by pattern '${deniedBy}' in project '${projectId}'`;
+    }
+    if (rules?.allow && !rules.allow.some(pattern => collectionPatternMatches(pattern, collectionPath))) {
+        return `Collection '${collectionPath}' is not in the allowed collections of project '${projectId}'`;
+    }
+    return null;
+}
+
+// Throw an AccessDeniedError unless the policy grants the permission
+export function assertAccess(policy: Policy, projectId: string, permission: Permission, collectionPath?: string): void {
+    const reason = accessDeniedReason(policy, projectId, permission, collectionPath);
+    if (reason) {
+        throw new AccessDeniedError(projectId, permission, reason, collectionPath);
+    }
+}
+
+// Whether a pattern may match some collection path that ends in a collection ID
+function mayMatchCollectionId(pattern: string, collectionId: string): boolean {
+    const last = pattern.replace(/^\/+|\/+$/g, "").split("/").pop();
+    return last === collectionId || last === "*" || last === "**";
+}
+
+// Whether a pattern matches every collection path that ends in a collection ID, at any depth
+function matchesEveryCollectionId(pattern: string, collectionId: string): boolean {
+    const segments = pattern.replace(/^\/+|\/+$/g, "").split("/");
+    return segments[0] === "**" && (segments.length === 1 || (segments.length === 2 && mayMatchCollectionId(pattern, collectionId)));
+}
+
+// Check a permission for a collection group, which spans every collection with the ID at any depth.
+// Access is granted only if no rule could tell those collections apart, since results from a group
+// such as an aggregate cannot always be filtered per collection.
+export function collectionGroupDeniedReason(
+    policy: Policy,
+    projectId: string,
+    permission: Permission,
+    collectionId: string
+): string | null {
+    const reason = accessDeniedReason(policy, projectId, permission, collectionId);
+    if (reason) {
+        return reason;
+    }
+
+    const rules = policy.projects[projectId]?.collections || policy.defaults?.collections;
+    const deniedBy = rules?.deny?.find(pattern => mayMatchCollectionId(pattern, collectionId));
+    if (deniedBy) {
+        return `Collection group '${collectionId}' may include collections denied by pattern '${deniedBy}' in project '${projectId}'`;
+    }
+    if (rules?.allow && !rules.allow.some(pattern => matchesEveryCollectionId(pattern, collectionId))) {
+        return `Collection group '${collectionId}' may include collections outside the allowed collections of project '${projectId}'`;
+    }
+    return null;
+}
+
+// Throw an AccessDeniedError unless the policy grants the permission for every collection of a collection group
+export function assertCollectionGroupAccess(policy: Policy, projectId: string, permission: Permission, collectionId: string): void {
+    const reason = collectionGroupDeniedReason(policy, projectId, permission, collectionId);
+    if (reason) {
+        throw new AccessDeniedError(projectId, permission, reason, collectionId);
+    }
+}
+
+// Whether any of the given projects grants a permission, used to hide tools nobody may call
+export function anyProjectGrants(policy: Policy, projectIds: string[], permission: Permission): boolean {
+    return projectIds.some(projectId => projectPermissions(policy, projectId).includes(permission));
+}
@@ -0,0 +1,289 @@
+/**
+ * Schema inference for collections: field types, presence and cardinality from a sample of documents
+ *
+ * Field paths use dots for nested maps and "[]" for array elements, e.g. "address.city" or "items[].sku".
+ * Segments that are not plain identifiers are quoted with backticks, as in Firestore field paths.
+ * The inferred schema can be rendered as JSON Schema, a Zod schema or a TypeScript type. These describe
+ * documents in the tagged value encoding the tools read and write (see encoding.ts).
+ */
+
+import { DocumentReference, GeoPoint, Timestamp } from "firebase-admin/firestore";
+import { encodeValue, isVectorValue } from "./encoding.js";
+
+export type ValueType = "string" | "number" | "boolean" | "null" | "timestamp" | "geopoint" | "reference" | "bytes" | "vector" | "map" | "array";
+
+export type SchemaFormat = "jsonSchema" | "zod" | "typescript";
+
+export type Cardinality = "constant" | "low" | "high" | "unique";
+
+export interface FieldProfile {
+    path: string;
+    // Occurrences of each type
+    types: Partial<Record<ValueType, number>>;
+    // Percentage of the documents, or of the enclosing maps, that have the field; absent for array elements
+    presence?: number;
+    // Absent for maps and arrays, which are described by their own fields and elements, and for vectors
+    examples?: any[];
+    // Number of distinct scalar values and, once there are at least two, what that suggests
+    distinct?: number;
+    cardinality?: Cardinality;
+    // Every distinct value, when there are few
+    values?: any[];
+}
+
+export interface FieldNode {
+    occurrences: number;
+    types: Map<ValueType, number>;
+    // Distinct scalar values, keyed by their encoded JSON
+    values: Map<string, any>;
+    // Fields seen in this value when it is a map, and the elements seen when it is an array
+    fields: Map<string, FieldNode>;
+    elements?: FieldNode;
+}
+
+// Up to this many distinct values count as low cardinality and are listed in full
+const LOW_CARDINALITY = 10;
+
+const MAX_EXAMPLES = 3;
+const MAX_EXAMPLE_LENGTH = 80;
+
+const SCALAR_TYPES = new Set<ValueType>(["string", "number", "boolean", "timestamp", "geopoint", "reference", "bytes"]);
+
+function newNode(): FieldNode {
+    return { occurrences: 0, types: new Map(), values: new Map(), fields: new Map() };
+}
+
+function valueType(value: any): ValueType {
+    if (value === null || value === undefined) return "null";
+    if (typeof value === "string") return "string";
+    if (typeof value === "number") return "number";
+    if (typeof value === "boolean") return "boolean";
+    if (value instanceof Timestamp) return "timestamp";
+    if (value instanceof GeoPoint) return "geopoint";
+    if (value instanceof DocumentReference) return "reference";
+    if (value instanceof Uint8Array) return "bytes";
+    if (isVectorValue(value)) return "vector";
+    if (Array.isArray(value)) return "array";
+    return "map";
+}
+
+function addValue(node: FieldNode, value: any): void {
+    const type = valueType(value);
+    node.occurrences++;
+    node.types.set(type, (node.types.get(type) || 0) + 1);
+
+    if (type === "map") {
+        addFields(node, value);
+    } else if (type === "array") {
+        node.elements = node.elements || newNode();
+        for (const element of value) {
+            addValue(node.elements, element);
+        }
+    } else if (type !== "null" && type !== "vector") {
+        // Embeddings are neither readable examples nor meaningful for cardinality
+        const encoded = encodeValue(value);
+        node.values.set(JSON.stringify(encoded), encoded);
+    }
+}
+
+function addFields(node: FieldNode, data: Record<string, any>): void {
+    for (const [key, value] of Object.entries(data)) {
+        let child = node.fields.get(key);
+        if (!child) {
+            child = newNode();
+            node.fields.set(key, child);
+        }
+        addValue(child, value);
+    }
+}
+
+// The field tree of a set of documents; its root node stands for the documents themselves
+export function inferSchema(documents: Record<string, any>[]): FieldNode {
+    const root = newNode();
+    for (const data of documents) {
+        addValue(root, data);
+    }
+    return root;
+}
+
+function isIdentifier(name: string): boolean {
+    return /^[A-Za-z_][A-Za-z_0-9]*$/.test(name);
+}
+
+function fieldPathSegment(name: string): string {
+    return isIdentifier(name) ? name : "`" + name.replace(/\\/g, "\\\\").replace(/`/g, "\\`") + "`";
+}
+
+// Shorten long strings so examples stay readable
+function example(value: any): any {
+    return typeof value === "string" && value.length > MAX_EXAMPLE_LENGTH ? value.slice(0, MAX_EXAMPLE_LENGTH) + "…" : value;
+}
+
+function cardinality(node: FieldNode): Pick<FieldProfile, "distinct" | "cardinality" | "values"> {
+    const scalars = [...node.types].filter(([type]) => SCALAR_TYPES.has(type)).reduce((sum, [, count]) => sum + count, 0);
+    if (scalars === 0) {
+        return {};
+    }
+    const distinct = node.values.size;
+    if (scalars === 1) {
+        return { distinct };
+    }
+    let hint: Cardinality;
+    if (distinct === 1) {
+        hint = "constant";
+    } else if (distinct === scalars) {
+        hint = "unique";
+    } else if (distinct <= LOW_CARDINALITY) {
+        hint = "low";
+    } else {
+        hint = "high";
+    }
+    return {
+        distinct,
+        cardinality: hint,
+        ...(distinct <= LOW_CARDINALITY && hint !== "unique" ? { values: [...node.values.values()].map(example) } : {}),
+    };
+}
+
+// List every field path below a node, with its types, presence, examples and cardinality
+export function profileFields(root: FieldNode): FieldProfile[] {
+    const profiles: FieldProfile[] = [];
+
+    const visit = (node: FieldNode, fieldPath: string, parentMaps?: number) => {
+        profiles.push({
+            path: fieldPath,
+            types: Object.fromEntries(node.types),
+            ...(parentMaps !== undefined ? { presence: Math.round(node.occurrences / parentMaps * 1000) / 10 } : {}),
+            ...(node.values.size > 0 ? { examples: [...node.values.values()].slice(0, MAX_EXAMPLES).map(example) } : {}),
+            ...cardinality(node),
+        });
+        visitChildren(node, fieldPath);
+    };
+
+    const visitChildren = (node: FieldNode, fieldPath: string) => {
+        const maps = node.types.get("map") || 0;
+        for (const [name, child] of [...node.fields].sort(([a], [b]) => a.localeCompare(b))) {
+            visit(child, fieldPath ? `${fieldPath}.${fieldPathSegment(name)}` : fieldPathSegment(name), maps);
+        }
+        if (node.elements) {
+            visit(node.elements, `${fieldPath}[]`);
+        }
+    };
+
+    visitChildren(root, "");
+    return profiles;
+}
+
+// Tagged encodings of the Firestore types JSON cannot represent
+const TAGGED_FIELDS: Partial<Record<ValueType, [string, "string" | "number"][]>> = {
+    timestamp: [["value", "string"]],
+    geopoint: [["latitude", "number"], ["longitude", "number"]],
+    reference: [["path", "string"]],
+    bytes: [["base64", "string"]],
+};
+
+// Child fields present in every occurrence of a map are required
+function requiredFields(node: FieldNode): Set<string> {
+    const maps = node.types.get("map") || 0;
+    return new Set([...node.fields].filter(([, child]) => child.occurrences === maps).map(([name]) => name));
+}
+
+function jsonSchemaFor(node: FieldNode | undefined): Record<string, any> {
+    if (!node || node.types.size === 0) {
+        return {};
+    }
+    const variants = [...node.types.keys()].map(type => {
+        const tagged = TAGGED_FIELDS[type];
+        if (tagged) {
+            return {
+                type: "object",
+                properties: {
+                    __type: { const: type },
+                    ...Object.fromEntries(tagged.map(([name, fieldType]) => [name, type === "timestamp" ? { type: fieldType, format: "date-time" } : { type: fieldType }])),
+                },
+                required: ["__type", ...tagged.map(([name]) => name)],
+            };
+        }
+        if (type === "map") {
+            const required = [...requiredFields(node)];
+            return {
+                type: "object",
+                properties: Object.fromEntries([...node.fields].map(([name, child]) => [name, jsonSchemaFor(child)])),
+                ...(required.length > 0 ? { required } : {}),
+            };
+        }
+        if (type === "array") {
+            return { type: "array", items: jsonSchemaFor(node.elements) };
+        }
+        if (type === "vector") {
+            return {
+                type: "object",
+                properties: { __type: { const: "vector" }, values: { type: "array", items: { type: "number" } } },
+                required: ["__type", "values"],
+            };
+        }
+        return { type };
+    });
+    return variants.length === 1 ? variants[0] : { anyOf: variants };
+}
+
+function propertyName(name: string): string {
+    return isIdentifier(name) ? name : JSON.stringify(name);
+}
+
+function codeFor(node: FieldNode | undefined, style: "zod" | "typescript", indent: string): string {
+    const zod = style === "zod";
+    if (!node || node.types.size === 0) {
+        return zod ? "z.unknown()" : "unknown";
+    }
+    const inner = indent + "    ";
+    const variants = [...node.types.keys()].map(type => {
+        const tagged = TAGGED_FIELDS[type];
+        if (tagged) {
+            return zod
+                ? `z.object({ __type: z.literal("${type}"), ${tagged.map(([name, fieldType]) => `${name}: z.${fieldType}()`).join(", ")} })`
+                : `{ __type: "${type}"; ${tagged.map(([name, fieldType]) => `${name}: ${fieldType}`).join("; ")} }`;
+        }
+        if (type === "map") {
+            const required = requiredFields(node);
+            const lines = [...node.fields].map(([name, child]) => {
+                const value = codeFor(child, style, inner);
+                return zod
+                    ? `${inner}${propertyName(name)}: ${value}${required.has(name) ? "" : ".optional()"},`
+                    : `${inner}${propertyName(name)}${required.has(name) ? "" : "?"}: ${value};`;
+            });
+            return zod ? `z.object({\n${lines.join("\n")}\n${indent}})` : `{\n${lines.join("\n")}\n${indent}}`;
+        }
+        if (type === "array") {
+            const element = codeFor(node.elements, style, indent);
+            return zod ? `z.array(${element})` : `Array<${element}>`;
+        }
+        if (type === "vector") {
+            return zod ? `z.object({ __type: z.literal("vector"), values: z.array(z.number()) })` : `{ __type: "vector"; values: number[] }`;
+        }
+        return zod ? `z.${type}()` : type;
+    });
+    if (variants.length === 1) {
+        return variants[0];
+    }
+    return zod ? `z.union([${variants.join(", ")}])` : variants.join(" | ");
+}
+
+// A type name for a collection, e.g. "orders" becomes "Orders" and "audit-log" becomes "AuditLog"
+function typeName(collectionId: string): string {
+    const name = collectionId.split(/[^A-Za-z0-9]+/).filter(part => part.length > 0)
+        .map(part => part[0].toUpperCase() + part.slice(1)).join("");
+    return /^[A-Za-z]/.test(name) ? name : `Collection${name}`;
+}
+
+// Render the inferred schema of a collection's documents
+export function renderSchema(root: FieldNode, collectionId: string, format: SchemaFormat): Record<string, any> | string {
+    const name = typeName(collectionId);
+    if (format === "jsonSchema") {
+        return { $schema: "https://json-schema.org/draft/2020-12/schema", title: name, ...jsonSchemaFor(root) };
+    }
+    if (format === "zod") {
+        return `export const ${name}Schema = ${codeFor(root, "zod", "")};\n`;
+    }
+    return `export type ${name} = ${codeFor(root, "typescript", "")};\n`;
+}
@@ -0,0 +1,134 @@
+/**
+ * MCP prompts stored as Firestore documents
+ *
+ * A prompt document looks like:
+ * {
+ *   "name": "summarize-order",              // defaults to the document ID
+ *   "description": "Summarize an order",
+ *   "arguments": [
+ *     { "name": "orderId", "description": "The order to summarize", "required": true },
+ *     { "name": "tone", "type": "enum", "enum": ["formal", "casual"] },
+ *     { "name": "maxWords", "type": "number" }
+ *   ],
+ *   "text": "Summarize order {{orderId}} in a {{tone}} tone in at most {{maxWords}} words."
+ * }
+ *
+ * Instead of "text" (or "content"), a prompt may have "messages": [{ "role": "user" | "assistant", "text": "..." }].
+ */
+
+import { z } from "zod";
+import { McpError, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+
+const PromptArgumentSchema = z.object({
+    name: z.string().min(1),
+    description: z.string().optional(),
+    required: z.boolean().default(false),
+    type: z.enum(["string", "number", "boolean", "enum"]).default("string"),
+    enum: z.array(z.string()).optional(),
+    default: z.union([z.string(), z.number(), z.boolean()]).optional(),
+});
+
+const PromptMessageSchema = z.object({
+    role: z.enum(["user", "assistant"]).default("user"),
+    text: z.string().optional(),
+    content: z.string().optional(),
+}).transform(message => ({ role: message.role, text: message.text ?? message.content ?? "" }));
+
+const PromptDocumentSchema = z.object({
+    name: z.string().min(1).optional(),
+    description: z.string().optional(),
+    arguments: z.array(PromptArgumentSchema).default([]),
+    text: z.string().optional(),
+    content: z.string().optional(),
+    messages: z.array(PromptMessageSchema).optional(),
+});
+
+export interface PromptDefinition {
+    id: string;
+    name: string;
+    description: string;
+    arguments: z.infer<typeof PromptArgumentSchema>[];
+    messages: { role: "user" | "assistant"; text: string }[];
+}
+
+// Placeholders look like {{name}}, with optional whitespace inside the braces
+const PLACEHOLDER = /\{\{\s*([A-Za-z0-9_.-]+)\s*\}\}/g;
+
+// Read a prompt definition from a Firestore document, or return null if the document is not a valid prompt
+export function parsePromptDocument(id: string, data: Record<string, any>): PromptDefinition | null {
+    const parsed = PromptDocumentSchema.safeParse(data);
+    if (!parsed.success) {
+        console.error(`Skipping invalid prompt document ${id}:`, parsed.error.errors.map(e => `${e.path.join(".")}: ${e.message}`).join(", "));
+        return null;
+    }
+
+    const prompt = parsed.data;
+    return {
+        id,
+        name: prompt.name || id,
+        description: prompt.description || "",
+        arguments: prompt.arguments,
+        messages: prompt.messages ?? [{ role: "user", text: prompt.text ?? prompt.content ?? "" }],
+    };
+}
+
+// The prompt as listed by prompts/list
+export function toMcpPrompt(prompt: PromptDefinition) {
+    return {
+        name: prompt.name,
+        description: prompt.description,
+        arguments: prompt.arguments.map(argument => ({
+            name: argument.name,
+            ...(argument.description ? { description: argument.description } : {}),
+            required: argument.required,
+        })),
+    };
+}
+
+// Check the supplied arguments against the prompt's declared arguments and fill in its placeholders
+export function renderPrompt(prompt: PromptDefinition, args: Record<string, string> = {}) {
+    // A Map, so placeholders such as {{constructor}} never match inherited object properties
+    const values = new Map<string, string>();
+    const problems: string[] = [];
+
+    for (const argument of prompt.arguments) {
+        const supplied = Object.prototype.hasOwnProperty.call(args, argument.name) ? args[argument.name] : undefined;
+        if (supplied === undefined || supplied === "") {
+            if (argument.required) {
+                problems.push(`missing required argument '${argument.name}'`);
+            }
+            values.set(argument.name, argument.default !== undefined ? String(argument.default) : "");
+            continue;
+        }
+
+        if (argument.type === "number" && !Number.isFinite(Number(supplied))) {
+            problems.push(`argument '${argument.name}' must be a number`);
+        } else if (argument.type === "boolean" && supplied !== "true" && supplied !== "false") {
+            problems.push(`argument '${argument.name}' must be 'true' or 'false'`);
+        } else if (argument.type === "enum" && argument.enum && !argument.enum.includes(supplied)) {
+            problems.push(`argument '${argument.name}' must be one of ${argument.enum.join(", ")}`);
+        }
+        values.set(argument.name, supplied);
+    }
+
+    const unknown = Object.keys(args).filter(name => !prompt.arguments.some(argument => argument.name === name));
+    if (unknown.length > 0) {
+        problems.push(`unknown argument(s) ${unknown.map(name => `'${name}'`).join(", ")}`);
+    }
+
+    if (problems.length > 0) {
+        throw new McpError(ErrorCode.InvalidParams, `Invalid arguments for prompt '${prompt.name}': ${problems.join("; ")}`);
+    }
+
+    return {
+        description: prompt.description,
+        messages: prompt.messages.map(message => ({
+            role: message.role,
+            content: {
+                type: "text" as const,
+                // Placeholders without a declared argument are left as they are
+                text: message.text.replace(PLACEHOLDER, (placeholder, name: string) => values.get(name) ?? placeholder),
+            },
+        })),
+    };
+}
@@ -0,0 +1,464 @@
+/**
+ * Export and import of collections as NDJSON, JSON or CSV files
+ *
+ * Every document is one record: its path relative to the exported collection ("uid", or "uid/orders/orderId"
+ * for a subcollection document) and its data in the tagged encoding of encoding.ts, so Timestamps,
+ * references and other Firestore types survive the round trip.
+ *
+ * - NDJSON: one { "path", "data" } object per line
+ * - JSON: an array of { "path", "data" } objects
+ * - CSV: a "__path" column followed by one column per top-level field. Cells hold JSON values, except that
+ *   strings are written as they are unless they would read back as JSON. An empty cell means the field is absent.
+ */
+
+import fs from "fs";
+import path from "path";
+import readline from "readline";
+import { once } from "events";
+import { z } from "zod";
+import { FieldPath } from "firebase-admin/firestore";
+import { AccessDeniedError } from "./policy.js";
+
+export type TransferFormat = "ndjson" | "json" | "csv";
+
+export interface TransferRecord {
+    path: string;
+    data: Record<string, any>;
+}
+
+export interface RecordWriter {
+    write(record: TransferRecord): Promise<void>;
+    // Finish the file and move it into place
+    close(): Promise<void>;
+    // Give up on the file, leaving any earlier file of the same name as it was
+    abort(): Promise<void>;
+}
+
+const PATH_COLUMN = "__path";
+
+const TransferRecordSchema = z.object({
+    path: z.string().min(1).refine(value => {
+        const segments = value.split("/");
+        return segments.length % 2 === 1 && segments.every(segment => segment.length > 0);
+    }, "must be a document ID, or a path of the form id/subcollection/id relative to the collection"),
+    data: z.record(z.any()),
+});
+
+// Pick the format from an explicit setting or the file extension
+export function transferFormat(filePath: string, format?: TransferFormat): TransferFormat {
+    if (format) {
+        return format;
+    }
+    const extension = path.extname(filePath).toLowerCase();
+    if (extension === ".ndjson" || extension === ".jsonl") return "ndjson";
+    if (extension === ".json") return "json";
+    if (extension === ".csv") return "csv";
+    throw new Error(`Cannot tell the format of '${filePath}'; use a .ndjson, .json or .csv file or set format`);
+}
+
+// Resolve a file name inside the transfer directory, refusing paths that would leave it
+export function resolveTransferFile(directory: string, file: string): string {
+    const root = path.resolve(directory);
+    const filePath = path.resolve(root, file);
+    if (filePath !== root && !filePath.startsWith(root + path.sep)) {
+        throw new Error(`File '${file}' is outside the export directory ${root}`);
+    }
+    return filePath;
+}
+
+async function writeChunk(stream: fs.WriteStream, chunk: string): Promise<void> {
+    if (!stream.write(chunk)) {
+        await once(stream, "drain");
+    }
+}
+
+async function closeStream(stream: fs.WriteStream): Promise<void> {
+    stream.end();
+    await once(stream, "finish");
+}
+
+// A CSV cell for a value: plain text for strings that cannot be mistaken for JSON, JSON for everything else
+function csvCell(value: any): string {
+    let text: string;
+    if (typeof value === "string") {
+        let readsAsJson = true;
+        try {
+            JSON.parse(value);
+        } catch {
+            readsAsJson = false;
+        }
+        text = readsAsJson || value === "" ? JSON.stringify(value) : value;
+    } else {
+        text = JSON.stringify(value);
+    }
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function parseCsvCell(text: string): any {
+    try {
+        return JSON.parse(text);
+    } catch {
+        return text;
+    }
+}
+
+// Split CSV text into rows of cells (RFC 4180: quoted cells may hold commas, quotes and line breaks)
+function parseCsv(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = "";
+    let quoted = false;
+
+    for (let index = 0; index < text.length; index++) {
+        const char = text[index];
+        if (quoted) {
+            if (char === '"' && text[index + 1] === '"') {
+                cell += '"';
+                index++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                cell += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === ",") {
+            row.push(cell);
+            cell = "";
+        } else if (char === "\n" || char === "\r") {
+            if (char === "\r" && text[index + 1] === "\n") index++;
+            row.push(cell);
+            rows.push(row);
+            row = [];
+            cell = "";
+        } else {
+            cell += char;
+        }
+    }
+    if (cell.length > 0 || row.length > 0) {
+        row.push(cell);
+        rows.push(row);
+    }
+    return rows.filter(cells => cells.some(value => value.length > 0));
+}
+
+// Open a file for writing records. Records go to a temporary file next to it, which replaces the file on
+// close, so an export that fails part-way never leaves a truncated file under the requested name.
+export async function openRecordWriter(filePath: string, format: TransferFormat): Promise<RecordWriter> {
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    const tempPath = `${filePath}.${process.pid}.${Date.now()}.partial`;
+    const stream = fs.createWriteStream(tempPath, { encoding: "utf8" });
+    const writer = await streamRecordWriter(stream, format);
+    return {
+        write: record => writer.write(record),
+        close: async () => {
+            await writer.close();
+            await fs.promises.rename(tempPath, filePath);
+        },
+        abort: async () => {
+            stream.destroy();
+            await fs.promises.rm(tempPath, { force: true });
+        },
+    };
+}
+
+// Write records to a stream. NDJSON and JSON are written as records arrive;
+// CSV needs every column name first, so its records are held until close.
+async function streamRecordWriter(stream: fs.WriteStream, format: TransferFormat): Promise<Omit<RecordWriter, "abort">> {
+
+    if (format === "ndjson") {
+        return {
+            write: record => writeChunk(stream, JSON.stringify(record) + "\n"),
+            close: () => closeStream(stream),
+        };
+    }
+
+    if (format === "json") {
+        let first = true;
+        await writeChunk(stream, "[");
+        return {
+            write: async record => {
+                await writeChunk(stream, `${first ? "\n" : ",\n"}  ${JSON.stringify(record)}`);
+                first = false;
+            },
+            close: async () => {
+                await writeChunk(stream, first ? "]\n" : "\n]\n");
+                await closeStream(stream);
+            },
+        };
+    }
+
+    const records: TransferRecord[] = [];
+    return {
+        write: async record => {
+            records.push(record);
+        },
+        close: async () => {
+            const columns = [...new Set(records.flatMap(record => Object.keys(record.data)))];
+            await writeChunk(stream, [PATH_COLUMN, ...columns].map(csvCell).join(",") + "\n");
+            for (const record of records) {
+                const cells = columns.map(column => column in record.data ? csvCell(record.data[column]) : "");
+                await writeChunk(stream, [csvCell(record.path), ...cells].join(",") + "\n");
+            }
+            await closeStream(stream);
+        },
+    };
+}
+
+function parseRecord(value: unknown, location: string): TransferRecord {
+    const parsed = TransferRecordSchema.safeParse(value);
+    if (!parsed.success) {
+        throw new Error(`Invalid record at ${location}: ${parsed.error.errors.map(e => `${e.path.join(".") || "record"}: ${e.message}`).join(", ")}`);
+    }
+    return parsed.data;
+}
+
+// Read the records of a file, one at a time for NDJSON; JSON and CSV files are read into memory whole
+export async function* readRecords(filePath: string, format: TransferFormat): AsyncGenerator<TransferRecord> {
+    if (format === "ndjson") {
+        const lines = readline.createInterface({ input: fs.createReadStream(filePath, { encoding: "utf8" }), crlfDelay: Infinity });
+        let lineNumber = 0;
+        for await (const line of lines) {
+            lineNumber++;
+            if (line.trim().length === 0) continue;
+            let value: unknown;
+            try {
+                value = JSON.parse(line);
+            } catch (error) {
+                throw new Error(`Invalid JSON at line ${lineNumber}: ${(error as Error).message}`);
+            }
+            yield parseRecord(value, `line ${lineNumber}`);
+        }
+        return;
+    }
+
+    const text = await fs.promises.readFile(filePath, "utf8");
+
+    if (format === "json") {
+        const values = JSON.parse(text);
+        if (!Array.isArray(values)) {
+            throw new Error("A JSON import file must hold an array of { path, data } records");
+        }
+        for (let index = 0; index < values.length; index++) {
+            yield parseRecord(values[index], `index ${index}`);
+        }
+        return;
+    }
+
+    const [header, ...rows] = parseCsv(text);
+    const columns = (header || []).map(parseCsvCell).map(String);
+    const pathIndex = columns.indexOf(PATH_COLUMN);
+    if (pathIndex < 0) {
+        throw new Error(`A CSV import file needs a '${PATH_COLUMN}' column`);
+    }
+    for (let index = 0; index < rows.length; index++) {
+        const data: Record<string, any> = {};
+        columns.forEach((column, columnIndex) => {
+            const cell = rows[index][columnIndex] ?? "";
+            if (columnIndex !== pathIndex && cell.length > 0) {
+                data[column] = parseCsvCell(cell);
+            }
+        });
+        yield parseRecord({ path: String(parseCsvCell(rows[index][pathIndex] ?? "")), data }, `row ${index + 2}`);
+    }
+}
+
+export type ImportConflictMode = "skip" | "overwrite" | "merge";
+
+export interface ExportOptions {
+    includeSubcollections: boolean;
+    // Stop after this many documents
+    limit?: number;
+    // Called with every subcollection found; returning false leaves it out of the export
+    checkCollection: (collectionPath: string) => boolean;
+    onProgress: (exported: number) => void;
+}
+
+export interface ExportResult {
+    documents: number;
+    collections: number;
+    omittedCollections: string[];
+    // True when the export stopped at the limit
+    truncated: boolean;
+}
+
+export interface ImportOptions {
+    onConflict: ImportConflictMode;
+    dryRun: boolean;
+    // Called with the collection path of every record; may throw an AccessDeniedError to refuse the import
+    checkCollection: (collectionPath: string) => void;
+    // Turns a record's tagged data into Firestore values
+    decode: (data: Record<string, any>) => Record<string, any>;
+    // Returns why a decoded record may not be written, or null if it may
+    check: (docRef: FirebaseFirestore.DocumentReference, data: Record<string, any>) => Promise<string | null>;
+    onProgress: (processed: number) => void;
+}
+
+export interface ImportResult {
+    records: number;
+    written: number;
+    skipped: number;
+    failed: number;
+    failures: { path: string; message: string }[];
+    // Set when reading the file stopped the import part way
+    error?: string;
+}
+
+// Documents are read this many at a time on export, and checked for existence this many at a time on a dry-run import
+const EXPORT_PAGE_SIZE = 500;
+const IMPORT_CHECK_SIZE = 100;
+
+// An import waits for its queued writes after this many, so a large file is never held in memory
+const IMPORT_FLUSH_SIZE = 500;
+
+// At most this many write failures are listed in an import result
+const MAX_LISTED_FAILURES = 20;
+
+// gRPC status of a create() that found an existing document
+const ALREADY_EXISTS = 6;
+
+// Write every document of a collection as a record, followed by the documents of its subcollections when asked
+export async function exportCollection(
+    collection: FirebaseFirestore.CollectionReference,
+    writer: RecordWriter,
+    encode: (data: Record<string, any>) => Record<string, any>,
+    options: ExportOptions
+): Promise<ExportResult> {
+    const result: ExportResult = { documents: 0, collections: 0, omittedCollections: [], truncated: false };
+
+    const exportFrom = async (current: FirebaseFirestore.CollectionReference, prefix: string): Promise<void> => {
+        result.collections++;
+        let last: FirebaseFirestore.QueryDocumentSnapshot | undefined;
+        do {
+            let query = current.orderBy(FieldPath.documentId()).limit(EXPORT_PAGE_SIZE);
+            if (last) {
+                query = query.startAfter(last);
+            }
+            const snapshot = await query.get();
+            for (const doc of snapshot.docs) {
+                if (options.limit !== undefined && result.documents >= options.limit) {
+                    result.truncated = true;
+                    return;
+                }
+                await writer.write({ path: prefix + doc.id, data: encode(doc.data()) });
+                result.documents++;
+                options.onProgress(result.documents);
+
+                if (options.includeSubcollections) {
+                    for (const subcollection of await doc.ref.listCollections()) {
+                        if (!options.checkCollection(subcollection.path)) {
+                            result.omittedCollections.push(subcollection.path);
+                            continue;
+                        }
+                        await exportFrom(subcollection, `${prefix}${doc.id}/${subcollection.id}/`);
+                        if (result.truncated) return;
+                    }
+                }
+            }
+            last = snapshot.docs.length === EXPORT_PAGE_SIZE ? snapshot.docs[snapshot.docs.length - 1] : undefined;
+        } while (last);
+    };
+
+    await exportFrom(collection, "");
+    return result;
+}
+
+// Write records below a collection. A dry run reads the file and checks which documents exist, but writes nothing.
+export async function importRecords(
+    collection: FirebaseFirestore.CollectionReference,
+    records: AsyncIterable<TransferRecord>,
+    options: ImportOptions
+): Promise<ImportResult> {
+    const result: ImportResult = { records: 0, written: 0, skipped: 0, failed: 0, failures: [] };
+    const firestore = collection.firestore;
+    const fail = (docPath: string, message: string) => {
+        result.failed++;
+        if (result.failures.length < MAX_LISTED_FAILURES) {
+            result.failures.push({ path: docPath, message });
+        }
+    };
+
+    // A dry run counts the documents a write would skip or replace, a batch of references at a time
+    let pending: FirebaseFirestore.DocumentReference[] = [];
+    const checkPending = async () => {
+        if (pending.length === 0) return;
+        const snapshots = await firestore.getAll(...pending);
+        const existing = snapshots.filter(snapshot => snapshot.exists).length;
+        if (options.onConflict === "skip") {
+            result.skipped += existing;
+            result.written += pending.length - existing;
+        } else {
+            result.written += pending.length;
+        }
+        pending = [];
+        options.onProgress(result.written + result.skipped + result.failed);
+    };
+
+    const bulkWriter = options.dryRun ? undefined : firestore.bulkWriter();
+    const writes: Promise<void>[] = [];
+
+    try {
+        for await (const record of records) {
+            result.records++;
+            const docRef = collection.doc(record.path);
+            options.checkCollection(docRef.parent.path);
+
+            let data: Record<string, any>;
+            try {
+                data = options.decode(record.data);
+            } catch (error) {
+                fail(docRef.path, (error as Error).message);
+                continue;
+            }
+            const problem = await options.check(docRef, data);
+            if (problem) {
+                fail(docRef.path, problem);
+                continue;
+            }
+
+            if (!bulkWriter) {
+                pending.push(docRef);
+                if (pending.length >= IMPORT_CHECK_SIZE) {
+                    await checkPending();
+                }
+                continue;
+            }
+
+            const write = options.onConflict === "skip"
+                ? bulkWriter.create(docRef, data)
+                : bulkWriter.set(docRef, data, { merge: options.onConflict === "merge" });
+            writes.push(write.then(
+                () => {
+                    result.written++;
+                    options.onProgress(result.written + result.skipped + result.failed);
+                },
+                error => {
+                    if (options.onConflict === "skip" && error.code === ALREADY_EXISTS) {
+                        result.skipped++;
+                    } else {
+                        fail(docRef.path, error.message);
+                    }
+                }
+            ));
+            if (writes.length >= IMPORT_FLUSH_SIZE) {
+                await bulkWriter.flush();
+                await Promise.all(writes.splice(0));
+            }
+        }
+        await checkPending();
+    } catch (error) {
+        // A refusal is the caller's to report; records before it are still written
+        if (error instanceof AccessDeniedError) {
+            throw error;
+        }
+        result.error = (error as Error).message;
+    } finally {
+        // Records read before a failure are still written
+        if (bulkWriter) {
+            await bulkWriter.close();
+            await Promise.all(writes);
+        }
+    }
+
+    return result;
+}
@@ -0,0 +1,171 @@
+/**
+ * JSON Schema validation of document writes, per project and collection
+ *
+ * Schemas are keyed by collection pattern (see policy.ts) and come from two places:
+ * - the "schemas" of a project in the server configuration
+ * - documents in a Firestore collection named by the project's "schemasCollection" or FIRESTORE_SCHEMAS_COLLECTION:
+ *   { "collection": "orders", "schema": { "type": "object", ... } }, where "schema" may also be a JSON string
+ *
+ * Every schema whose pattern matches a collection must accept the documents written to it. Documents are
+ * validated as they would be after the write, in the tagged value encoding (see encoding.ts), with pending
+ * server timestamps standing in as the current time. describeCollection can draft a schema in this form.
+ */
+
+import { Ajv2020, ErrorObject, ValidateFunction } from "ajv/dist/2020.js";
+import addFormats from "ajv-formats";
+import { z } from "zod";
+import { Timestamp } from "firebase-admin/firestore";
+import { encodeValue, timestampToIso } from "./encoding.js";
+import { collectionPatternMatches } from "./policy.js";
+
+export interface FieldError {
+    // Dotted path of the offending field; empty for the document itself
+    field: string;
+    message: string;
+}
+
+export interface ValidationFailure {
+    path: string;
+    errors: FieldError[];
+}
+
+// Raised when a write would leave a document that its collection's schemas reject
+export class SchemaValidationError extends Error {
+    constructor(public readonly failures: ValidationFailure[]) {
+        super("Document failed schema validation");
+        this.name = "SchemaValidationError";
+    }
+}
+
+interface CompiledSchema {
+    pattern: string;
+    validate: ValidateFunction;
+}
+
+// Schemas stored in Firestore are read again after this long
+const STORED_SCHEMAS_TTL_MS = 60 * 1000;
+
+const StoredSchemaSchema = z.object({
+    collection: z.string().min(1),
+    schema: z.union([z.record(z.any()), z.string()]),
+});
+
+function createAjv(): Ajv2020 {
+    // Not strict, so schemas may carry keywords of their own, such as descriptions for other tools
+    const ajv = new Ajv2020({ allErrors: true, strict: false });
+    // ajv-formats is a CommonJS module; its plugin is the default export
+    addFormats.default(ajv);
+    return ajv;
+}
+
+// Describe what is wrong with a schema, or return null if it is a valid JSON Schema
+export function schemaProblem(schema: Record<string, any>): string | null {
+    const ajv = createAjv();
+    try {
+        ajv.compile(schema);
+        return null;
+    } catch (error) {
+        return (error as Error).message;
+    }
+}
+
+function fieldPath(instancePath: string, property?: string): string {
+    const segments = instancePath.split("/").slice(1).map(segment => segment.replace(/~1/g, "/").replace(/~0/g, "~"));
+    if (property !== undefined) {
+        segments.push(property);
+    }
+    return segments.join(".");
+}
+
+function fieldErrors(errors: ErrorObject[]): FieldError[] {
+    return errors.map(error => {
+        if (error.keyword === "required") {
+            return { field: fieldPath(error.instancePath, error.params.missingProperty), message: "is required" };
+        }
+        if (error.keyword === "additionalProperties") {
+            return { field: fieldPath(error.instancePath, error.params.additionalProperty), message: "is not allowed by the schema" };
+        }
+        return { field: fieldPath(error.instancePath), message: error.message || error.keyword };
+    });
+}
+
+// The JSON form a document is validated in: tagged values, with pending server timestamps as the current time
+function validationDocument(data: Record<string, any>): Record<string, any> {
+    const now = timestampToIso(Timestamp.now());
+    const replacePending = (value: any): any => {
+        if (Array.isArray(value)) {
+            return value.map(replacePending);
+        }
+        if (value && typeof value === "object") {
+            if (value.__type === "serverTimestamp") {
+                return { __type: "timestamp", value: now };
+            }
+            return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, replacePending(item)]));
+        }
+        return value;
+    };
+    return replacePending(encodeValue(data));
+}
+
+// The schemas of one project database
+export class SchemaRegistry {
+    private readonly configured: CompiledSchema[];
+    private stored: { loadedAt: number; schemas: CompiledSchema[] } | null = null;
+
+    constructor(
+        schemas: Record<string, Record<string, any>>,
+        private readonly collection?: FirebaseFirestore.CollectionReference
+    ) {
+        const ajv = createAjv();
+        this.configured = Object.entries(schemas).map(([pattern, schema]) => ({ pattern, validate: ajv.compile(schema) }));
+    }
+
+    private async storedSchemas(): Promise<CompiledSchema[]> {
+        if (!this.collection) {
+            return [];
+        }
+        if (this.stored && Date.now() - this.stored.loadedAt < STORED_SCHEMAS_TTL_MS) {
+            return this.stored.schemas;
+        }
+
+        // A fresh compiler each time, so reloaded schemas with an $id do not clash with their previous versions
+        const ajv = createAjv();
+        const snapshot = await this.collection.get();
+        const schemas: CompiledSchema[] = [];
+        for (const doc of snapshot.docs) {
+            const parsed = StoredSchemaSchema.safeParse(doc.data());
+            try {
+                if (!parsed.success) {
+                    throw new Error(parsed.error.errors.map(e => `${e.path.join(".")}: ${e.message}`).join(", "));
+                }
+                const schema = typeof parsed.data.schema === "string" ? JSON.parse(parsed.data.schema) : parsed.data.schema;
+                schemas.push({ pattern: parsed.data.collection, validate: ajv.compile(schema) });
+            } catch (error) {
+                console.error(`Ignoring schema document ${doc.ref.path}: ${(error as Error).message}`);
+            }
+        }
+
+        this.stored = { loadedAt: Date.now(), schemas };
+        return schemas;
+    }
+
+    private async schemasFor(collectionPath: string): Promise<CompiledSchema[]> {
+        const schemas = [...this.configured, ...await this.storedSchemas()];
+        return schemas.filter(schema => collectionPatternMatches(schema.pattern, collectionPath));
+    }
+
+    // Whether any schema applies to a collection
+    async hasSchemas(collectionPath: string): Promise<boolean> {
+        return (await this.schemasFor(collectionPath)).length > 0;
+    }
+
+    // Validate the document a write leaves behind; returns its field errors, empty when every schema accepts it
+    async validate(collectionPath: string, data: Record<string, any>): Promise<FieldError[]> {
+        const schemas = await this.schemasFor(collectionPath);
+        if (schemas.length === 0) {
+            return [];
+        }
+        const document = validationDocument(data);
+        return schemas.flatMap(schema => schema.validate(document) ? [] : fieldErrors(schema.validate.errors || []));
+    }
+}
@@ -0,0 +1,65 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { FieldValue, Firestore, GeoPoint, Timestamp } from "firebase-admin/firestore";
+import { decodeValue, encodeValue, isoToTimestamp, timestampToIso } from "../build/encoding.js";
+
+// Clients connect lazily, so one is enough to build references without a Firestore server
+const firestore = new Firestore({ projectId: "demo" });
+
+test("encodes Firestore types as tagged values and decodes them back", () => {
+    const value = {
+        at: new Timestamp(1714564800, 123456789),
+        place: new GeoPoint(52.37, 4.89),
+        owner: firestore.doc("users/u1"),
+        bytes: Buffer.from([0, 1, 2]),
+        embedding: FieldValue.vector([0.5, -1]),
+        ratio: NaN,
+        nested: { list: [1, "two", { three: Infinity }] },
+    };
+    const encoded = encodeValue(value);
+    assert.deepEqual(encoded, {
+        at: { __type: "timestamp", value: "2024-05-01T12:00:00.123456789Z" },
+        place: { __type: "geopoint", latitude: 52.37, longitude: 4.89 },
+        owner: { __type: "reference", path: "users/u1" },
+        bytes: { __type: "bytes", base64: "AAEC" },
+        embedding: { __type: "vector", values: [0.5, -1] },
+        ratio: { __type: "number", value: "NaN" },
+        nested: { list: [1, "two", { three: { __type: "number", value: "Infinity" } }] },
+    });
+
+    const decoded = decodeValue(JSON.parse(JSON.stringify(encoded)), firestore);
+    assert.ok(decoded.at.isEqual(value.at));
+    assert.ok(decoded.place.isEqual(value.place));
+    assert.ok(decoded.owner.isEqual(value.owner));
+    assert.deepEqual([...decoded.bytes], [0, 1, 2]);
+    assert.ok(decoded.embedding.isEqual(value.embedding));
+    assert.ok(Number.isNaN(decoded.ratio));
+    assert.equal(decoded.nested.list[2].three, Infinity);
+});
+
+test("wraps maps that have their own __type key", () => {
+    const encoded = encodeValue({ __type: "timestamp", value: "not a tag" });
+    assert.deepEqual(encoded, { __type: "map", value: { __type: "timestamp", value: "not a tag" } });
+    assert.deepEqual(decodeValue(encoded, firestore), { __type: "timestamp", value: "not a tag" });
+});
+
+test("keeps nanoseconds in ISO timestamps", () => {
+    assert.equal(timestampToIso(isoToTimestamp("2024-05-01T14:00:00.000000001+02:00")), "2024-05-01T12:00:00.000000001Z");
+    assert.throws(() => isoToTimestamp("2024-05-01"), { name: "InvalidArgumentError" });
+});
+
+test("accepts the legacy timestamp shape", () => {
+    assert.ok(decodeValue({ _seconds: 10, _nanoseconds: 5 }, firestore).isEqual(new Timestamp(10, 5)));
+});
+
+test("allows field transforms only in document data", () => {
+    assert.ok(decodeValue({ count: { __type: "increment", by: 2 } }, firestore, { transforms: true }).count instanceof FieldValue);
+    assert.throws(() => decodeValue({ count: { __type: "increment", by: 2 } }, firestore), { name: "InvalidArgumentError" });
+    assert.throws(() => decodeValue([{ __type: "serverTimestamp" }], firestore, { transforms: true }), { name: "InvalidArgumentError" });
+});
+
+test("refuses truncated and unknown tagged values", () => {
+    assert.throws(() => decodeValue({ text: { __type: "truncated", value: "abc", length: 100 } }, firestore), /Truncated values cannot be written/);
+    assert.throws(() => decodeValue({ __type: "mystery" }, firestore), /Unknown value type 'mystery'/);
+    assert.throws(() => decodeValue({ __type: "vector", values: [1, "2"] }, firestore), { name: "InvalidArgumentError" });
+});
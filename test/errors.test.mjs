@@ -0,0 +1,78 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { InvalidArgumentError, describeFirestoreError, indexFromUrl, isInvalidArgumentError } from "../build/errors.js";
+
+// Protobuf wire format: a varint field, or a length-delimited field holding a string or message
+function varint(value) {
+    const bytes = [];
+    do {
+        bytes.push((value & 0x7f) | (value > 0x7f ? 0x80 : 0));
+        value >>>= 7;
+    } while (value > 0);
+    return Buffer.from(bytes);
+}
+const varintField = (number, value) => Buffer.concat([varint(number * 8), varint(value)]);
+function bytesField(number, value) {
+    const bytes = Buffer.isBuffer(value) ? value : Buffer.from(value, "utf8");
+    return Buffer.concat([varint(number * 8 + 2), varint(bytes.length), bytes]);
+}
+
+function consoleUrl(index) {
+    return `https://console.firebase.google.com/v1/r/project/demo/firestore/indexes?create_composite=${encodeURIComponent(index.toString("base64"))}`;
+}
+
+test("reads the index definition from a console link", () => {
+    const index = Buffer.concat([
+        bytesField(1, "projects/demo/databases/(default)/collectionGroups/orders/indexes/_"),
+        varintField(2, 1),
+        bytesField(3, Buffer.concat([bytesField(1, "status"), varintField(2, 1)])),
+        bytesField(3, Buffer.concat([bytesField(1, "tags"), varintField(3, 1)])),
+        bytesField(3, Buffer.concat([bytesField(1, "createdAt"), varintField(2, 2)])),
+    ]);
+    assert.deepEqual(indexFromUrl(consoleUrl(index)), {
+        collectionGroup: "orders",
+        queryScope: "COLLECTION",
+        fields: [
+            { fieldPath: "status", order: "ASCENDING" },
+            { fieldPath: "tags", arrayConfig: "CONTAINS" },
+            { fieldPath: "createdAt", order: "DESCENDING" },
+        ],
+    });
+});
+
+test("reads a collection group scope", () => {
+    const index = Buffer.concat([
+        bytesField(1, "projects/demo/databases/(default)/collectionGroups/items/indexes/_"),
+        varintField(2, 2),
+        bytesField(3, Buffer.concat([bytesField(1, "price"), varintField(2, 1)])),
+    ]);
+    assert.equal(indexFromUrl(consoleUrl(index)).queryScope, "COLLECTION_GROUP");
+});
+
+test("returns null for links it cannot read", () => {
+    assert.equal(indexFromUrl("https://console.firebase.google.com/v1/r/project/demo/firestore/indexes"), null);
+    assert.equal(indexFromUrl(consoleUrl(Buffer.from([0x0a, 0x10, 0x01]))), null);
+    assert.equal(indexFromUrl(consoleUrl(bytesField(1, "not an index name"))), null);
+});
+
+test("describes a missing index with a firestore.indexes.json snippet", () => {
+    const index = Buffer.concat([
+        bytesField(1, "projects/demo/databases/(default)/collectionGroups/orders/indexes/_"),
+        varintField(2, 1),
+        bytesField(3, Buffer.concat([bytesField(1, "status"), varintField(2, 1)])),
+    ]);
+    const error = Object.assign(new Error(`9 FAILED_PRECONDITION: The query requires an index. You can create it here: ${consoleUrl(index)}`), { code: 9 });
+    const described = describeFirestoreError(error);
+    assert.equal(described.error, "Missing index");
+    assert.equal(described.code, "FAILED_PRECONDITION");
+    assert.deepEqual(described.firestoreIndexes, {
+        indexes: [{ collectionGroup: "orders", queryScope: "COLLECTION", fields: [{ fieldPath: "status", order: "ASCENDING" }] }],
+        fieldOverrides: [],
+    });
+});
+
+test("recognizes input errors", () => {
+    assert.ok(isInvalidArgumentError(new InvalidArgumentError("Invalid page token")));
+    assert.ok(isInvalidArgumentError(new Error('Value for argument "documentPath" is not a valid resource path.')));
+    assert.ok(!isInvalidArgumentError(new Error("14 UNAVAILABLE: No connection established")));
+});
@@ -0,0 +1,42 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { accessDeniedReason, collectionGroupDeniedReason, collectionPatternMatches } from "../build/policy.js";
+
+function policy(collections, permissions) {
+    return { readOnly: false, projects: { demo: { ...(permissions ? { permissions } : {}), collections } } };
+}
+
+test("matches collection patterns segment by segment", () => {
+    assert.ok(collectionPatternMatches("users", "users"));
+    assert.ok(collectionPatternMatches("/users/", "users"));
+    assert.ok(!collectionPatternMatches("users", "users/u1/orders"));
+    assert.ok(collectionPatternMatches("users/*/orders", "users/u1/orders"));
+    assert.ok(!collectionPatternMatches("users/*/orders", "users/orders"));
+    assert.ok(collectionPatternMatches("users/**", "users"));
+    assert.ok(collectionPatternMatches("users/**", "users/u1/orders/o1/items"));
+    assert.ok(collectionPatternMatches("**/secrets", "secrets"));
+    assert.ok(collectionPatternMatches("**/secrets", "teams/t1/secrets"));
+    assert.ok(!collectionPatternMatches("**/secrets", "teams/t1/secrets/s1/notes"));
+});
+
+test("checks project permissions before collection rules", () => {
+    assert.equal(accessDeniedReason(policy(undefined, ["read"]), "demo", "read", "users"), null);
+    assert.match(accessDeniedReason(policy(undefined, ["read"]), "demo", "write", "users"), /does not grant 'write'/);
+    assert.match(accessDeniedReason({ readOnly: true, projects: {} }, "demo", "delete"), /read-only mode/);
+});
+
+test("applies deny before allow", () => {
+    const rules = policy({ allow: ["users/**"], deny: ["users/*/secrets"] });
+    assert.equal(accessDeniedReason(rules, "demo", "read", "users/u1/orders"), null);
+    assert.match(accessDeniedReason(rules, "demo", "read", "users/u1/secrets"), /denied by pattern 'users\/\*\/secrets'/);
+    assert.match(accessDeniedReason(rules, "demo", "read", "teams"), /not in the allowed collections/);
+});
+
+test("grants a collection group only when no rule could tell its collections apart", () => {
+    assert.equal(collectionGroupDeniedReason(policy(undefined), "demo", "read", "orders"), null);
+    assert.equal(collectionGroupDeniedReason(policy({ allow: ["**"] }), "demo", "read", "orders"), null);
+    assert.equal(collectionGroupDeniedReason(policy({ allow: ["**/orders"] }), "demo", "read", "orders"), null);
+    assert.match(collectionGroupDeniedReason(policy({ allow: ["orders", "users/*/orders"] }), "demo", "read", "orders"), /outside the allowed collections/);
+    assert.match(collectionGroupDeniedReason(policy({ deny: ["teams/*/orders"] }), "demo", "read", "orders"), /may include collections denied/);
+    assert.equal(collectionGroupDeniedReason(policy({ deny: ["teams/*/secrets"] }), "demo", "read", "orders"), null);
+});
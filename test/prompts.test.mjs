@@ -0,0 +1,35 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { renderPrompt } from "../build/prompts.js";
+
+function prompt(text, args = []) {
+    return { id: "p", name: "p", description: "A prompt", arguments: args, messages: [{ role: "user", text }] };
+}
+
+test("fills placeholders with supplied arguments and defaults", () => {
+    const rendered = renderPrompt(prompt("{{ who }} in {{where}}", [
+        { name: "who", required: true },
+        { name: "where", required: false, default: "Amsterdam" },
+    ]), { who: "Ada" });
+    assert.equal(rendered.messages[0].content.text, "Ada in Amsterdam");
+});
+
+test("leaves placeholders without a declared argument as they are", () => {
+    const rendered = renderPrompt(prompt("{{name}} {{constructor}} {{toString}} {{hasOwnProperty}}", [{ name: "name", required: false }]), { name: "x" });
+    assert.equal(rendered.messages[0].content.text, "x {{constructor}} {{toString}} {{hasOwnProperty}}");
+});
+
+test("does not read inherited properties as supplied arguments", () => {
+    const rendered = renderPrompt(prompt("[{{toString}}]", [{ name: "toString", required: false }]), {});
+    assert.equal(rendered.messages[0].content.text, "[]");
+});
+
+test("refuses missing, mistyped and unknown arguments", () => {
+    assert.throws(
+        () => renderPrompt(prompt("{{n}}", [
+            { name: "n", type: "number", required: false },
+            { name: "r", required: true },
+        ]), { n: "many", extra: "1" }),
+        /argument 'n' must be a number; missing required argument 'r'; unknown argument\(s\) 'extra'/
+    );
+});
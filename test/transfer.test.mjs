@@ -0,0 +1,92 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { openRecordWriter, readRecords, resolveTransferFile, transferFormat } from "../build/transfer.js";
+
+const records = [
+    { path: "u1", data: { name: "Ada, Countess", quote: 'She said "hi"', note: "line one\nline two", age: 36 } },
+    { path: "u1/orders/o1", data: { total: 12.5, tags: ["a", "b"], shipped: false, owner: null } },
+    { path: "u2", data: { name: "42", flag: "true", empty: "", at: { __type: "timestamp", value: "2024-05-01T12:00:00Z" } } },
+];
+
+async function roundTrip(format) {
+    const directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), "transfer-test-"));
+    try {
+        const filePath = path.join(directory, `records.${format}`);
+        const writer = await openRecordWriter(filePath, format);
+        for (const record of records) {
+            await writer.write(record);
+        }
+        await writer.close();
+
+        const read = [];
+        for await (const record of readRecords(filePath, format)) {
+            read.push(record);
+        }
+        return { read, text: await fs.promises.readFile(filePath, "utf8"), files: await fs.promises.readdir(directory) };
+    } finally {
+        await fs.promises.rm(directory, { recursive: true, force: true });
+    }
+}
+
+for (const format of ["ndjson", "json"]) {
+    test(`reads back the records it writes as ${format}`, async () => {
+        const { read, files } = await roundTrip(format);
+        assert.deepEqual(read, records);
+        assert.deepEqual(files, [`records.${format}`]);
+    });
+}
+
+test("reads back the records it writes as CSV, leaving absent fields out", async () => {
+    const { read, text } = await roundTrip("csv");
+    assert.deepEqual(read, records);
+    assert.equal(text.split("\n")[0], "__path,name,quote,note,age,total,tags,shipped,owner,flag,empty,at");
+});
+
+test("quotes CSV cells that would not read back as the same string", async () => {
+    const { text } = await roundTrip("csv");
+    assert.ok(text.includes('"Ada, Countess"'));
+    assert.ok(text.includes('"She said ""hi"""'));
+    assert.ok(text.includes('"""42"""'));
+    assert.ok(text.includes('"""true"""'));
+});
+
+test("leaves an earlier file in place when a write is aborted", async () => {
+    const directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), "transfer-test-"));
+    try {
+        const filePath = path.join(directory, "records.ndjson");
+        await fs.promises.writeFile(filePath, "earlier\n");
+        const writer = await openRecordWriter(filePath, "ndjson");
+        await writer.write(records[0]);
+        await writer.abort();
+        assert.equal(await fs.promises.readFile(filePath, "utf8"), "earlier\n");
+        assert.deepEqual(await fs.promises.readdir(directory), ["records.ndjson"]);
+    } finally {
+        await fs.promises.rm(directory, { recursive: true, force: true });
+    }
+});
+
+test("refuses invalid records with their location", async () => {
+    const directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), "transfer-test-"));
+    try {
+        const filePath = path.join(directory, "records.ndjson");
+        await fs.promises.writeFile(filePath, '{"path":"u1","data":{}}\n{"path":"u1/orders","data":{}}\n');
+        const read = async () => {
+            for await (const _ of readRecords(filePath, "ndjson"));
+        };
+        await assert.rejects(read, /Invalid record at line 2/);
+    } finally {
+        await fs.promises.rm(directory, { recursive: true, force: true });
+    }
+});
+
+test("picks the format from the extension and keeps files in the directory", () => {
+    assert.equal(transferFormat("users.jsonl"), "ndjson");
+    assert.equal(transferFormat("users.CSV"), "csv");
+    assert.equal(transferFormat("users.txt", "json"), "json");
+    assert.throws(() => transferFormat("users.txt"));
+    assert.equal(resolveTransferFile("/exports", "a/users.ndjson"), path.resolve("/exports/a/users.ndjson"));
+    assert.throws(() => resolveTransferFile("/exports", "../users.ndjson"), /outside the export directory/);
+});